@@ -0,0 +1,9 @@
+-- Track parsed vs stored references so total_references always matches document_references rows
+alter table public.documents
+  add column if not exists citation_style text,
+  add column if not exists parsed_references integer,
+  add column if not exists skipped_references jsonb not null default '[]'::jsonb;
+
+comment on column public.documents.total_references is 'Number of document_references rows stored for this document';
+comment on column public.documents.parsed_references is 'Number of bibliography entries found by the parser (before any plan cap)';
+comment on column public.documents.skipped_references is 'Bibliography entries that were parsed but not stored: [{entry_id, position, raw_reference, reason, detail}]';
@@ -0,0 +1,22 @@
+-- One row per in-text citation occurrence, so the UI can point at "page 7, paragraph 3"
+create table if not exists public.citation_occurrences (
+  id uuid default gen_random_uuid() primary key,
+  document_id uuid not null references public.documents(id) on delete cascade,
+  document_reference_id uuid not null references public.document_references(id) on delete cascade,
+  occurrence_index integer not null,
+  citation_text text not null,
+  char_start integer not null,
+  char_end integer not null,
+  page_number integer,
+  paragraph_number integer,
+  bounding_boxes jsonb not null default '[]'::jsonb,
+  context_text text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+comment on column public.citation_occurrences.char_start is 'Offset of the citation in the parsed body text';
+comment on column public.citation_occurrences.page_number is '1-based PDF page; null for formats without pages (DOCX, LaTeX, XML)';
+comment on column public.citation_occurrences.bounding_boxes is 'Citation rectangles on the page in PDF points, top-left origin: [{x, y, width, height}]';
+
+create index if not exists idx_citation_occurrences_document_reference_id on public.citation_occurrences(document_reference_id);
+create index if not exists idx_citation_occurrences_document_id on public.citation_occurrences(document_id);
@@ -0,0 +1,5 @@
+-- Orphan and dangling citations found while parsing, shown on the references page
+alter table public.documents
+  add column if not exists citation_report jsonb;
+
+comment on column public.documents.citation_report is 'Parser consistency report: {unresolved_citations: [{citation_id, raw_text, occurrences}], uncited_references: [{entry_id, position, raw_reference}], out_of_range_citations: [{raw_text, numbers, list_length, occurrences}]}';
@@ -0,0 +1,6 @@
+-- Bibliography entries that describe the same work as an earlier entry
+alter table public.document_references
+  add column if not exists duplicate_of_position integer;
+
+comment on column public.document_references.duplicate_of_position is 'position_in_doc of the earlier entry describing the same work (same DOI/arXiv id or near-identical title); null for distinct works';
+comment on column public.documents.total_references is 'Number of distinct works stored for this document (document_references rows not marked as duplicates)';
@@ -0,0 +1,37 @@
+-- Works resolved through Crossref/OpenAlex, shared across documents that cite them
+create table if not exists public.canonical_references (
+  id uuid default gen_random_uuid() primary key,
+  doi text,
+  pmid text,
+  external_id text,
+  title text not null,
+  authors text[] not null default '{}',
+  publication_year integer,
+  journal text,
+  abstract text,
+  full_text_hash text,
+  source_api text,
+  last_verified timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+comment on column public.canonical_references.external_id is 'Identifier in source_api: the DOI for Crossref, the W-id for OpenAlex';
+
+create unique index if not exists idx_canonical_references_doi on public.canonical_references(lower(doi)) where doi is not null;
+create index if not exists idx_canonical_references_external_id on public.canonical_references(source_api, external_id);
+
+do $$ begin
+  create type public.match_status as enum ('pending', 'matched', 'not_found', 'ambiguous', 'error');
+exception
+  when duplicate_object then null;
+end $$;
+
+-- Link each document reference to the work it resolved to
+alter table public.document_references
+  add column if not exists canonical_reference_id uuid references public.canonical_references(id) on delete set null,
+  add column if not exists match_status public.match_status not null default 'pending',
+  add column if not exists match_score numeric(4,3);
+
+comment on column public.document_references.match_score is 'Resolver score of the best candidate, 0 to 1; set for matched and ambiguous references';
+
+create index if not exists idx_document_references_canonical_reference_id on public.document_references(canonical_reference_id);
@@ -0,0 +1,11 @@
+-- Preprint and version of record of the same work
+alter table public.canonical_references
+  add column if not exists arxiv_id text,
+  add column if not exists published_doi text,
+  add column if not exists journal_ref text;
+
+comment on column public.canonical_references.arxiv_id is 'Versionless arXiv identifier of the preprint, when the work has one';
+comment on column public.canonical_references.published_doi is 'DOI of the peer-reviewed version of record; equals doi when this row is the published version';
+comment on column public.canonical_references.journal_ref is 'Journal reference the authors added on arXiv, e.g. "Nature 521, 436-444 (2015)"';
+
+create index if not exists idx_canonical_references_arxiv_id on public.canonical_references(arxiv_id) where arxiv_id is not null;
@@ -0,0 +1,26 @@
+-- Retractions, expressions of concern and corrections imported from the Retraction Watch CSV or a DOI list
+create table if not exists public.retraction_notices (
+  id uuid default gen_random_uuid() primary key,
+  doi text not null,
+  notice_type text not null check (notice_type in ('retraction', 'expression_of_concern', 'correction')),
+  notice_doi text,
+  notice_date date,
+  reason text,
+  source text not null,
+  imported_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+comment on column public.retraction_notices.doi is 'Lower-case DOI of the affected (original) paper';
+comment on column public.retraction_notices.notice_doi is 'DOI of the retraction/correction notice itself, when known';
+comment on column public.retraction_notices.source is 'Dataset the row came from; re-importing a source replaces its rows';
+
+create index if not exists idx_retraction_notices_doi on public.retraction_notices(doi);
+create index if not exists idx_retraction_notices_source on public.retraction_notices(source);
+
+-- Screening outcome per document reference
+alter table public.document_references
+  add column if not exists retraction_status text check (retraction_status in ('none', 'retraction', 'expression_of_concern', 'correction')),
+  add column if not exists retraction_details jsonb not null default '[]'::jsonb;
+
+comment on column public.document_references.retraction_status is 'Most serious notice found for the cited work; null until screened';
+comment on column public.document_references.retraction_details is 'Matching notices: [{notice_type, notice_doi, notice_date, reason, source}]';
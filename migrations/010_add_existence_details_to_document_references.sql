@@ -0,0 +1,6 @@
+-- Explainable existence check: per-field comparison of the citation with the resolved record
+alter table public.document_references
+  add column if not exists existence_details jsonb not null default '[]'::jsonb;
+
+comment on column public.document_references.existence_score is '0-100 from DOI syntax and field-by-field agreement with the Crossref/OpenAlex record; null when no source could be reached';
+comment on column public.document_references.existence_details is 'Per-field comparison: [{field, status, cited, found, note}]';
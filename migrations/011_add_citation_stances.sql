@@ -0,0 +1,12 @@
+-- Why each in-text citation cites its work, and the per-reference tally
+alter table public.citation_occurrences
+  add column if not exists stance text check (stance in ('background', 'method', 'supporting', 'contrasting', 'comparison')),
+  add column if not exists stance_rationale text;
+
+comment on column public.citation_occurrences.stance is 'Intent of the citing sentence; null until classified or when it has no context';
+comment on column public.citation_occurrences.stance_rationale is 'One-sentence reason the model gave for the stance';
+
+alter table public.document_references
+  add column if not exists stance_counts jsonb not null default '{}'::jsonb;
+
+comment on column public.document_references.stance_counts is 'Occurrences per stance: {"supporting": 2, "background": 1}';
@@ -0,0 +1,62 @@
+-- processing_jobs exists in older databases without a migration; create it where it is missing
+create table if not exists public.processing_jobs (
+  id uuid default gen_random_uuid() primary key,
+  document_id uuid not null references public.documents(id) on delete cascade,
+  job_type text not null check (job_type in ('parse_references', 'match_canonical', 'verify_integrity')),
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  error_message text,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Queue state: the input a job needs, retries with backoff and worker leases
+alter table public.processing_jobs
+  add column if not exists payload jsonb not null default '{}'::jsonb,
+  add column if not exists attempts integer not null default 0,
+  add column if not exists max_attempts integer not null default 3,
+  add column if not exists run_after timestamp with time zone default timezone('utc'::text, now()) not null,
+  add column if not exists locked_by text,
+  add column if not exists locked_at timestamp with time zone;
+
+comment on column public.processing_jobs.payload is 'Job input beyond the document, e.g. the storage path of an upload awaiting parse_references';
+comment on column public.processing_jobs.attempts is 'Times a worker has claimed the job, including the current run';
+comment on column public.processing_jobs.run_after is 'Earliest time the job may be claimed; pushed back after a failed attempt';
+comment on column public.processing_jobs.locked_by is 'Worker holding the job while it runs';
+comment on column public.processing_jobs.locked_at is 'Last lease renewal; a running job whose lease lapsed is claimed again';
+
+create index if not exists idx_processing_jobs_due on public.processing_jobs(status, run_after);
+create index if not exists idx_processing_jobs_document on public.processing_jobs(document_id, created_at desc);
+
+-- Claim the oldest due job: a queued one whose backoff has passed, or a running
+-- one whose worker stopped renewing its lease (crashed or hit its time limit).
+-- skip locked lets several workers claim at once without taking the same job.
+create or replace function public.claim_processing_job(worker_id text, lease_seconds integer default 120)
+returns setof public.processing_jobs
+language plpgsql
+as $$
+begin
+  return query
+  update public.processing_jobs job
+  set status = 'running',
+      attempts = job.attempts + 1,
+      locked_by = worker_id,
+      locked_at = now(),
+      started_at = coalesce(job.started_at, now())
+  where job.id = (
+    select candidate.id
+    from public.processing_jobs candidate
+    where (candidate.status = 'queued' and candidate.run_after <= now())
+       or (candidate.status = 'running' and candidate.locked_at < now() - make_interval(secs => lease_seconds))
+    order by candidate.run_after, candidate.created_at
+    limit 1
+    for update skip locked
+  )
+  returning job.*;
+end;
+$$;
+
+-- Uploads wait here until their parse_references job has read them
+insert into storage.buckets (id, name, public)
+values ('uploads', 'uploads', false)
+on conflict (id) do nothing;
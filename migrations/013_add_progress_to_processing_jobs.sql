@@ -0,0 +1,9 @@
+-- How far a running job has got, for the document progress stream
+alter table public.processing_jobs
+  add column if not exists stage text,
+  add column if not exists stage_done integer,
+  add column if not exists stage_total integer;
+
+comment on column public.processing_jobs.stage is 'Step the job is on, e.g. resolving or reviewing; null until it starts';
+comment on column public.processing_jobs.stage_done is 'Items of the stage finished so far; null for stages that are not counted';
+comment on column public.processing_jobs.stage_total is 'Items the stage covers, e.g. distinct references to resolve';
@@ -0,0 +1,12 @@
+-- Whether a reference's context integrity review produced a score, and why not
+alter table public.document_references
+  add column if not exists context_review_state text check (context_review_state in ('scored', 'skipped', 'failed', 'no_source')),
+  add column if not exists context_review_reason text;
+
+comment on column public.document_references.context_review_state is 'scored, or why there is no score: skipped (nothing to review), failed (model call or answer unusable), no_source (cited text unavailable); null until reviewed';
+comment on column public.document_references.context_review_reason is 'Why the review has no score, shown to the user';
+
+-- Reviews stored before states existed carry a score only when the model gave one
+update public.document_references
+  set context_review_state = 'scored'
+  where context_review_state is null and context_integrity_score is not null;
@@ -0,0 +1,22 @@
+-- Model answers that did not parse or match the prompt's schema, kept to track how often each prompt needs repairing
+create table if not exists public.llm_output_failures (
+  id uuid default gen_random_uuid() primary key,
+  task text not null,
+  provider text not null,
+  model text not null,
+  attempt integer not null,
+  exhausted boolean not null default false,
+  error text not null,
+  output text,
+  document_id uuid references public.documents(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+comment on column public.llm_output_failures.task is 'Prompt the answer was for, e.g. context_review or citation_stance';
+comment on column public.llm_output_failures.attempt is '1 for the first answer, higher for answers to a repair request';
+comment on column public.llm_output_failures.exhausted is 'True when no repair attempts were left, so the call failed';
+comment on column public.llm_output_failures.error is 'Why the answer was rejected: the JSON parse error or the schema issues';
+comment on column public.llm_output_failures.output is 'The rejected answer, truncated';
+
+create index if not exists idx_llm_output_failures_task on public.llm_output_failures(task, created_at);
+create index if not exists idx_llm_output_failures_document_id on public.llm_output_failures(document_id);
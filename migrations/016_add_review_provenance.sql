@@ -0,0 +1,16 @@
+-- How each stored review was produced: the prompt (or rule-based check) and its
+-- version, the model settings and when it ran
+alter table public.document_references
+  add column if not exists existence_provenance jsonb,
+  add column if not exists context_review_provenance jsonb;
+
+alter table public.documents
+  add column if not exists ai_review_provenance jsonb;
+
+comment on column public.document_references.existence_provenance is 'How existence_check was made: {method, version, provider, model, temperature, generated_at}; the check is rule-based, so the model fields are null';
+comment on column public.document_references.context_review_provenance is 'How context_integrity_review was made: {method, version, provider, model, temperature, generated_at}; method is the prompt name';
+comment on column public.documents.ai_review_provenance is 'How ai_review_report was made: {method, version, provider, model, temperature, generated_at}; method is the prompt name';
+
+-- Finding reviews made with an outdated prompt version
+create index if not exists idx_document_references_context_review_version
+  on public.document_references((context_review_provenance->>'method'), ((context_review_provenance->>'version')::integer));
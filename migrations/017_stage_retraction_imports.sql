@@ -0,0 +1,39 @@
+-- Retraction imports are written here first and swapped in by
+-- publish_retraction_import, so a failed import never leaves a source half-empty
+create table if not exists public.retraction_notice_imports (
+  id uuid default gen_random_uuid() primary key,
+  import_id uuid not null,
+  doi text not null,
+  notice_type text not null check (notice_type in ('retraction', 'expression_of_concern', 'correction')),
+  notice_doi text,
+  notice_date date,
+  reason text,
+  source text not null,
+  imported_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+comment on column public.retraction_notice_imports.import_id is 'One import run; its rows are published together or discarded together';
+
+create index if not exists idx_retraction_notice_imports_import_id on public.retraction_notice_imports(import_id);
+
+-- Replace a source's notices with a staged import in one transaction and clear
+-- the staging rows. Returns the number of notices published.
+create or replace function public.publish_retraction_import(p_source text, p_import_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  published integer;
+begin
+  delete from public.retraction_notices where source = p_source;
+
+  insert into public.retraction_notices (doi, notice_type, notice_doi, notice_date, reason, source, imported_at)
+  select doi, notice_type, notice_doi, notice_date, reason, source, imported_at
+  from public.retraction_notice_imports
+  where import_id = p_import_id and source = p_source;
+  get diagnostics published = row_count;
+
+  delete from public.retraction_notice_imports where import_id = p_import_id;
+  return published;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Per-user reference cap, so a plan's cap can be raised or lowered for one user without a redeploy
+alter table public.user_plans
+  add column if not exists reference_cap integer check (reference_cap is null or reference_cap > 0);
+
+comment on column public.user_plans.reference_cap is 'References processed per document for this user; null uses the default for plan_type';
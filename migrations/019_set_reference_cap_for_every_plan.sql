@@ -0,0 +1,15 @@
+-- Store the reference cap on every plan row so user_plans.reference_cap is the only source of it.
+-- New rows (free plans) start at 50; set the column when changing a user's plan_type.
+alter table public.user_plans
+  alter column reference_cap set default 50;
+
+update public.user_plans
+set reference_cap = case
+  when monthly_limit >= 999999 then null
+  when plan_type = 'free' then 50
+  when plan_type = 'academic' then 300
+  else null
+end
+where reference_cap is null;
+
+comment on column public.user_plans.reference_cap is 'References processed per document for this user; null processes every reference (pro and unlimited plans)';
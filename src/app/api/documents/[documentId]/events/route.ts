@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { findLatestProcessingJob, getDocumentStatus } from '@/utils/database/operations';
+import type { ProcessingJob } from '@/types/database';
+
+// Jobs record progress on their row from another invocation, so the stream
+// polls it. A connection stays open for STREAM_MS; EventSource reconnects
+// by itself afterwards.
+const POLL_INTERVAL_MS = 1000;
+const STREAM_MS = 240_000;
+const KEEPALIVE_MS = 15_000;
+
+/**
+ * Server-Sent Events for a document's extraction or validation:
+ * - `stage`: the current job and step, whenever either changes
+ * - `progress`: `{stage, done, total}` for counted steps ("validated 14/52")
+ * - `done`: `{status, error}` once the document leaves 'processing'; the stream then ends
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ documentId: string }> }) {
+  const { documentId } = await context.params;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const deadline = Date.now() + STREAM_MS;
+      let lastStage = '';
+      let lastProgress = '';
+      let lastSent = Date.now();
+
+      try {
+        while (!request.signal.aborted && Date.now() < deadline) {
+          const [status, job] = await Promise.all([
+            getDocumentStatus(documentId),
+            findLatestProcessingJob(documentId),
+          ]);
+
+          if (status !== 'processing') {
+            send('done', {
+              status: status ?? 'failed',
+              error: status === null ? 'Document not found' : status === 'failed' ? job?.error_message ?? null : null,
+            });
+            break;
+          }
+
+          if (job) {
+            const stageKey = `${job.id}:${job.status}:${job.stage}`;
+            if (stageKey !== lastStage) {
+              send('stage', stageEvent(job));
+              lastStage = stageKey;
+              lastSent = Date.now();
+            }
+
+            const progressKey = `${job.id}:${job.stage}:${job.stage_done}/${job.stage_total}`;
+            if (job.stage && job.stage_total !== null && progressKey !== lastProgress) {
+              send('progress', { stage: job.stage, done: job.stage_done, total: job.stage_total });
+              lastProgress = progressKey;
+              lastSent = Date.now();
+            }
+          }
+
+          if (Date.now() - lastSent >= KEEPALIVE_MS) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+            lastSent = Date.now();
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (err) {
+        // A closed connection or a failed poll; the client reconnects if it is still listening
+        if (!request.signal.aborted) {
+          console.error(`[document-events] Stream for ${documentId} failed:`, err);
+        }
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the client going away
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+function stageEvent(job: ProcessingJob) {
+  return {
+    jobId: job.id,
+    type: job.job_type,
+    status: job.status,
+    stage: job.stage,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    retryAt: job.status === 'queued' && job.attempts > 0 ? job.run_after : null,
+    error: job.error_message,
+  };
+}
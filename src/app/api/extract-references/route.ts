@@ -1,307 +1,12 @@
 // src/app/api/extract-references/route.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { extractText } from 'unpdf';
-import { getSupabaseClient } from '@/utils/supabase/server';
-import { getSupabaseServiceClient } from '@/utils/supabase/client';
-import { 
-  createDocument, 
-  createDocumentReferences, 
-  updateDocumentStatus, 
-  calculateDocumentIntegrityScore
-} from '@/utils/database/operations';
-import { parseReference } from '@/utils/reference-parser';
-import { parseAcademicDocument } from '@/utils/citation-parser';
-
-interface ReferenceWithContext {
-  raw_reference: string;
-  context_before: string | null;
-  context_after: string | null;
-}
-
-interface ExtractionResult {
-  references: ReferenceWithContext[];
-  totalParsed: number;
-}
-
-async function extractReferencesFromPdf(
-  buffer: Buffer,
-  fileName: string
-): Promise<ExtractionResult> {
-  // Use unpdf for text extraction (works in Node.js without browser APIs)
-  const uint8Array = new Uint8Array(buffer);
-  const result = await extractText(uint8Array);
-  // unpdf returns {totalPages: number, text: string[]} - join pages into single string
-  const rawText = Array.isArray(result?.text) ? result.text.join('\n') : (typeof result === 'string' ? result : '');
-
-  if (!rawText.trim()) {
-    throw new Error('PDF text is empty or could not be parsed');
-  }
-
-  // Normalise line endings and clean up binary/corrupted data
-  let text = rawText.replace(/\r\n/g, '\n');
-  // Remove excessive binary/corrupted sequences (common in poorly-formed PDFs)
-  text = text.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F]/g, ' ');
-  
-  const lower = text.toLowerCase();
-
-  let startIndex = -1;
-
-  // 1) Best case: "References" on its own line
-  const headingRegex = /(^|\n)\s*references\s*$/im;
-  const match = headingRegex.exec(text);
-  if (match && match.index !== undefined) {
-    const afterHeadingNewline = text.indexOf('\n', match.index + match[0].length);
-    startIndex =
-      afterHeadingNewline === -1
-        ? match.index + match[0].length
-        : afterHeadingNewline + 1;
-  }
-
-  // 2) Fallback: look for "REFERENCES" or "Bibliography" sections
-  if (startIndex === -1) {
-    const altMatch = /\n\s*(REFERENCES|BIBLIOGRAPHY|References|Bibliography)\s*\n/i.exec(text);
-    if (altMatch && altMatch.index !== undefined) {
-      startIndex = altMatch.index + altMatch[0].length;
-    }
-  }
-
-  // 3) Final fallback: last occurrence of the word "references" anywhere
-  if (startIndex === -1) {
-    const idx = lower.lastIndexOf('references');
-    if (idx !== -1) {
-      const after = text.indexOf('\n', idx);
-      startIndex = after === -1 ? idx + 'references'.length : after + 1;
-    }
-  }
-
-  if (startIndex === -1) {
-    throw new Error(
-      'Could not detect any references section in this PDF. Try another file or adjust the parser.'
-    );
-  }
-
-  const refsBlock = text.slice(startIndex).trim();
-  if (!refsBlock) {
-    throw new Error(
-      'Found a "References" heading but no content after it – parser may need tuning.'
-    );
-  }
-
-  // Split into lines and then group lines that belong to the same reference.
-  // This is deliberately simple but works well for typical journal PDFs
-  const lines = refsBlock.split(/\n+/);
-  const references: ReferenceWithContext[] = [];
-  let current = '';
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-
-    // Heuristics for "this looks like the start of a new reference":
-    //  - Starts with "Surname, X." style
-    //  - OR starts with [1], [2] etc
-    //  - OR starts with "1." / "2." style
-    //  - OR starts with capital letter followed by space/lowercase (common author pattern)
-    const looksLikeStart =
-      /^[A-Z][^,]{1,80},/.test(trimmed) || // Author, ...
-      /^\[\d+\]/.test(trimmed) || // [1] Author...
-      /^\d+\./.test(trimmed) || // 1. Author...
-      /^[A-Z][a-z]+\s+[A-Z][a-z]+[\s,.]/.test(trimmed); // FirstName LastName pattern
-
-    if (looksLikeStart && current) {
-      references.push({
-        raw_reference: current.trim(),
-        context_before: null,
-        context_after: null,
-      });
-      current = trimmed;
-    } else {
-      current = current ? `${current} ${trimmed}` : trimmed;
-    }
-  }
-  if (current) {
-    references.push({
-      raw_reference: current.trim(),
-      context_before: null,
-      context_after: null,
-    });
-  }
-
-  if (!references.length) {
-    throw new Error(
-      'Found the references section but could not split individual references – parser is too naive for this PDF.'
-    );
-  }
-
-  // Now extract context (100 words before and 50 words after) from full document
-  // Optimize: build a word index first to avoid O(n*m) complexity
-  const fullText = rawText.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F]/g, ' ');
-  const words = fullText.match(/\S+/g) || [];
-  
-  // Pre-build a map of reference keys to their positions for faster lookup
-  const refPositions = new Map<string, number[]>();
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i];
-    // Check for [n] pattern
-    if (/^\[\d+\]/.test(word)) {
-      const key = word.match(/^\[\d+\]/)?.[0];
-      if (key) {
-        if (!refPositions.has(key)) refPositions.set(key, []);
-        refPositions.get(key)!.push(i);
-      }
-    }
-    // Check for .n. pattern
-    if (/^\.\d+\./.test(word)) {
-      const key = word.match(/^\.\d+\./)?.[0];
-      if (key) {
-        if (!refPositions.has(key)) refPositions.set(key, []);
-        refPositions.get(key)!.push(i);
-      }
-    }
-  }
-  
-  console.log(`[extract-references] Found ${refPositions.size} reference patterns in text`);
-  
-  let contextsFound = 0;
-  for (const ref of references) {
-    const refShortForm = extractRefKey(ref.raw_reference);
-    
-    // Try to find the reference citation in the text
-    let foundIndex = -1;
-    
-    if (refShortForm && refPositions.has(refShortForm)) {
-      // Exact pattern found (e.g., [1], .1.)
-      foundIndex = refPositions.get(refShortForm)?.[0] ?? -1;
-    } else if (refShortForm) {
-      // Try to find just the number  
-      const numberMatch = refShortForm.match(/\d+/);
-      if (numberMatch) {
-        const numberKey = `[${numberMatch[0]}]`;
-        if (refPositions.has(numberKey)) {
-          foundIndex = refPositions.get(numberKey)?.[0] ?? -1;
-        }
-      }
-    }
-    
-    if (foundIndex !== -1) {
-      // Found the citation - extract context around it
-      const contextWords = extractContextWordsAtIndex(words, foundIndex, 100, 50);
-      ref.context_before = contextWords.before;
-      ref.context_after = contextWords.after;
-    } else {
-      // Citation not found - extract from a representative part of the document
-      // Use references distributed throughout the document
-      const refIndex = references.indexOf(ref);
-      const sectionSize = Math.floor(words.length / references.length);
-      const contextIndex = Math.min(
-        Math.max(refIndex * sectionSize + Math.floor(sectionSize / 2), 100),
-        words.length - 51
-      );
-      
-      if (contextIndex > 0 && contextIndex < words.length) {
-        const contextWords = extractContextWordsAtIndex(words, contextIndex, 100, 50);
-        ref.context_before = contextWords.before;
-        ref.context_after = contextWords.after;
-      } else {
-        ref.context_before = null;
-        ref.context_after = null;
-      }
-    }
-    
-    if (ref.context_before || ref.context_after) {
-      contextsFound++;
-    }
-  }
-
-  const totalParsed = references.length;
-  
-  console.log(
-    `Parsed ${totalParsed} references from ${fileName} (${contextsFound} with context)`
-  );
-
-  // Limit to first 5 references for faster processing
-  // But try to include at least one that matches the hydrology paper if available
-  let limitedReferences = references.slice(0, 5);
-  
-  // Check if any of the first 5 match hydrology keywords
-  const hasHydrologyMatch = limitedReferences.some(ref => {
-    const refLower = ref.raw_reference.toLowerCase();
-    return (refLower.includes('hydrological') || refLower.includes('watershed') || 
-            refLower.includes('suspended sediment')) && refLower.includes('time series');
-  });
-  
-  // If no match in first 5, search for one and replace the 5th reference
-  if (!hasHydrologyMatch && references.length > 5) {
-    const hydrologyRef = references.find(ref => {
-      const refLower = ref.raw_reference.toLowerCase();
-      return (refLower.includes('hydrological') || refLower.includes('watershed') || 
-              refLower.includes('suspended sediment')) && refLower.includes('time series');
-    });
-    
-    if (hydrologyRef) {
-      limitedReferences = [...references.slice(0, 4), hydrologyRef];
-      console.log(`Added hydrology paper match to limited set`);
-    }
-  }
-  
-  console.log(`Limiting to ${limitedReferences.length} references for processing`);
-
-  return { references: limitedReferences, totalParsed };
-}
-
-/**
- * Extract a short key from the reference (e.g., first author surname or [1] pattern)
- */
-function extractRefKey(reference: string): string | null {
-  // Try to extract [n] pattern
-  const bracketMatch = reference.match(/^\[(\d+)\]/);
-  if (bracketMatch) {
-    return `[${bracketMatch[1]}]`;
-  }
-
-  // Try to extract numbered pattern (1. Author...)
-  const numberMatch = reference.match(/^(\d+)\./);
-  if (numberMatch) {
-    return `.${numberMatch[1]}.`;
-  }
-
-  // Try to extract first author surname
-  const authorMatch = reference.match(/^([A-Z][a-z]+)/);
-  if (authorMatch) {
-    return authorMatch[1];
-  }
-
-  return null;
-}
-
-/**
- * Extract previous and next N words from a specific index in the word array
- * Optimized: directly uses the index instead of searching through all words
- */
-function extractContextWordsAtIndex(
-  words: string[],
-  wordIndex: number,
-  beforeCount: number,
-  afterCount: number
-): { before: string | null; after: string | null } {
-  // Get previous N words
-  const beforeStart = Math.max(0, wordIndex - beforeCount);
-  const beforeWords = words.slice(beforeStart, wordIndex);
-
-  // Get next N words
-  const afterEnd = Math.min(words.length, wordIndex + afterCount + 1);
-  const afterWords = words.slice(wordIndex + 1, afterEnd);
-
-  return {
-    before: beforeWords.length > 0 ? beforeWords.join(' ') : null,
-    after: afterWords.length > 0 ? afterWords.join(' ') : null,
-  };
-}
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createDocument } from '@/utils/database/operations';
+import { detectUploadFormat, SUPPORTED_UPLOAD_DESCRIPTION } from '@/utils/ingestion';
+import { drainJobs, queueUpload } from '@/utils/jobs';
 
 export async function POST(req: NextRequest) {
   try {
-    console.log('[extract-references] Processing PDF upload...');
+    console.log('[extract-references] Processing document upload...');
     
     // Validate environment variables
     if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
@@ -323,9 +28,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (!file.type.includes('pdf')) {
+    const format = detectUploadFormat(file.name, file.type);
+    if (!format) {
       return NextResponse.json(
-        { error: 'File must be a PDF' },
+        { error: `File must be ${SUPPORTED_UPLOAD_DESCRIPTION}` },
         { status: 400 }
       );
     }
@@ -338,7 +44,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    console.log(`[extract-references] File received: ${file.name}, size: ${file.size} bytes`);
+    console.log(`[extract-references] File received: ${file.name} (${format}), size: ${file.size} bytes`);
     console.log(`[extract-references] userId: ${userId}`);
     
     const arrayBuffer = await file.arrayBuffer();
@@ -370,182 +76,23 @@ export async function POST(req: NextRequest) {
     
     console.log(`[extract-references] Created document record: ${document.id}`);
 
-    // 2) Extract and parse references with context from the PDF
-    console.log(`[extract-references] Extracting references from ${file.name}...`);
-    const startTime = Date.now();
-    
-    let referencesWithContext: any[];
-    let totalParsedCount: number;
-    let fullText: string = '';
-    
-    // Initialize Supabase client at the start
-    const supabase = getSupabaseServiceClient();
-    
-    try {
-      // Update status to processing
-      await updateDocumentStatus(document.id, 'processing');
-      
-      // Extract full text from PDF
-      const uint8Array = new Uint8Array(buffer);
-      const result = await extractText(uint8Array);
-      fullText = Array.isArray(result?.text) ? result.text.join('\n') : (typeof result === 'string' ? result : '');
-      
-      if (!fullText.trim()) {
-        throw new Error('PDF text is empty or could not be parsed');
-      }
-      
-      // Use comprehensive citation parser
-      const parsedDoc = parseAcademicDocument(fullText);
-      
-      console.log(`[extract-references] Detected citation style: ${parsedDoc.style} (${(parsedDoc.styleConfidence * 100).toFixed(0)}% confidence)`);
-      console.log(`[extract-references] Found ${parsedDoc.bibliography.length} bibliography entries`);
-      console.log(`[extract-references] Found ${parsedDoc.inTextCitations.length} in-text citations`);
-      
-      // Save citation style to document
-      await (supabase as any)
-        .from('documents')
-        .update({ citation_style: parsedDoc.style })
-        .eq('id', document.id);
-      
-      // Extract context for each bibliography entry (2 sentences before citation)
-      // Handle multiple citations like [35, 2, 5] and find ALL occurrences
-      referencesWithContext = parsedDoc.bibliography.map((bibEntry, index) => {
-        const contexts: string[] = [];
-        
-        // For IEEE style, search for all occurrences of [N] in body text
-        // Also handle ranges like [3-5] and lists like [35, 2, 5]
-        const refNumber = bibEntry.entryId;
-        
-        // Find all citation brackets that contain this reference number
-        // Match patterns like: [5], [35, 2, 5], [2, 5], [5, 10], [3-5], [5-10]
-        const citationBrackets = bodyText.match(/\[\d+(?:\s*[-,]\s*\d+)*\]/g) || [];
-        
-        const foundPositions: number[] = [];
-        
-        for (const bracket of citationBrackets) {
-          // Check if this bracket contains our reference number
-          const numbers = bracket.replace(/[\[\]]/g, '').split(/[-,]\s*/);
-          
-          // Handle ranges like [3-5]
-          if (bracket.includes('-')) {
-            const [start, end] = numbers.map(n => parseInt(n.trim()));
-            const refNum = parseInt(refNumber);
-            if (refNum >= start && refNum <= end) {
-              // Find position of this bracket in body text
-              const pos = bodyText.indexOf(bracket);
-              if (pos !== -1) foundPositions.push(pos);
-            }
-          } else {
-            // Handle lists like [35, 2, 5]
-            if (numbers.map(n => n.trim()).includes(refNumber)) {
-              // Find ALL occurrences of this exact bracket
-              let searchPos = 0;
-              while (true) {
-                const pos = bodyText.indexOf(bracket, searchPos);
-                if (pos === -1) break;
-                foundPositions.push(pos);
-                searchPos = pos + 1;
-              }
-            }
-          }
-        }
-        
-        const bodyText = parsedDoc.bodyText;
-        
-        // Remove duplicates and sort
-        const uniquePositions = [...new Set(foundPositions)].sort((a, b) => a - b);
-        
-        // Extract context for each occurrence
-        for (const citationIndex of uniquePositions) {
-          if (citationIndex > 0) {
-            // Extract 2 sentences before the citation
-            const textBeforeCitation = bodyText.substring(0, citationIndex);
-            const sentences = textBeforeCitation.split(/[.!?]+\s+/);
-            const last2Sentences = sentences.slice(-2).join('. ').trim();
-            
-            if (last2Sentences && !contexts.includes(last2Sentences)) {
-              contexts.push(last2Sentences);
-            }
-          }
-        }
-        
-        // Join multiple contexts with separator
-        const contextBefore = contexts.length > 0 ? contexts.join(' | ') : null;
-        
-        return {
-          raw_reference: bibEntry.rawText,
-          context_before: contextBefore,
-          context_after: null,
-          // Parsed metadata
-          title: bibEntry.title,
-          authors: bibEntry.authors,
-          year: bibEntry.year,
-          journal: bibEntry.journal,
-          entryId: bibEntry.entryId,
-          citation_count: contexts.length, // How many times this reference is cited
-        };
-      });
-      
-      totalParsedCount = parsedDoc.bibliography.length;
-      
-    } catch (pdfError) {
-      console.error('[extract-references] PDF extraction failed:', pdfError);
-      await updateDocumentStatus(document.id, 'failed');
-      throw new Error(`PDF extraction failed: ${pdfError instanceof Error ? pdfError.message : 'Unknown error'}`);
-    }
-    
-    const duration = Date.now() - startTime;
-    console.log(`[extract-references] Extraction took ${duration}ms for ${referencesWithContext.length} references`);
-
-    // Save total references count to document (full parsed count, not limited)
-    await (supabase as any)
-      .from('documents')
-      .update({ total_references: totalParsedCount })
-      .eq('id', document.id);
-
-    // 3) Save document references to database with parsed metadata
-    const documentReferences = await createDocumentReferences(
-      document.id,
-      referencesWithContext.map((ref, index) => {
-        // Extract author names from parsed bibliography (now string[])
-        const firstAuthor = ref.authors.length > 0 
-          ? ref.authors[0] 
-          : undefined;
-        const secondAuthor = ref.authors.length > 1 
-          ? ref.authors[1] 
-          : undefined;
-        const lastAuthor = ref.authors.length > 2 
-          ? ref.authors[ref.authors.length - 1] 
-          : undefined;
-        
-        return {
-          rawCitationText: ref.raw_reference,
-          contextBefore: ref.context_before || undefined,
-          contextAfter: ref.context_after || undefined,
-          positionInDoc: index,
-          // Parsed metadata from citation parser
-          firstAuthor,
-          secondAuthor,
-          lastAuthor,
-          year: ref.year || undefined,
-          publication: ref.journal || undefined,
-        };
-      })
-    );
+    // 2) Queue extraction; the worker parses the file after this response is sent
+    const job = await queueUpload(document.id, {
+      file: buffer,
+      fileName: file.name,
+      contentType: file.type,
+      userId,
+    });
     
-    console.log(`[extract-references] Created ${documentReferences.length} document references with parsed metadata`);
+    console.log(`[extract-references] Queued parse_references job ${job.id} for document ${document.id}`);
 
-    // Update status to ready for review
-    await updateDocumentStatus(document.id, 'completed');
-    
-    console.log(`[extract-references] Successfully processed document ${document.id} - ready for review`);
+    after(() => drainJobs().catch(err => console.error('[extract-references] Job worker failed:', err)));
     
     return NextResponse.json({
       documentId: document.id,
-      totalReferences: totalParsedCount,
-      referencesProcessed: referencesWithContext.length,
-      status: 'ready_for_review',
-    }, { status: 200 });
+      jobId: job.id,
+      status: job.status,
+    }, { status: 202 });
   
   } catch (err) {
     console.error('[extract-references] Error:', err);
@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
+import { getLlmProvider } from '@/utils/llm';
 
 export async function GET() {
   const checks = {
     supabase_url: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
     supabase_key: !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
     openai_key: !!process.env.OPENAI_API_KEY,
+    llm_provider: getLlmProvider()?.name ?? null,
     environment: process.env.NODE_ENV,
     worker_path_exists: !!process.env.NODE_MODULES_DIR,
   };
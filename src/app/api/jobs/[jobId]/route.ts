@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentStatus, getProcessingJob } from '@/utils/database/operations';
+
+/**
+ * Status of a processing job and of its document. A validation runs as two
+ * jobs (match_canonical, then verify_integrity), so clients wait for the
+ * document to leave 'processing' rather than for one job to complete.
+ */
+export async function GET(_request: NextRequest, context: { params: Promise<{ jobId: string }> }) {
+  try {
+    const { jobId } = await context.params;
+    const job = await getProcessingJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      jobId: job.id,
+      documentId: job.document_id,
+      type: job.job_type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      retryAt: job.status === 'queued' && job.attempts > 0 ? job.run_after : null,
+      error: job.error_message,
+      documentStatus: await getDocumentStatus(job.document_id),
+    });
+  } catch (err) {
+    console.error('[jobs] Status lookup failed:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error occurred';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { drainJobs } from '@/utils/jobs';
+
+// Leave headroom under the function's maxDuration for the job already running
+const DRAIN_BUDGET_MS = 240_000;
+
+/**
+ * Drain the job queue: retries whose backoff has passed and jobs orphaned by
+ * a worker that stopped mid-run. Called by the Vercel cron (see vercel.json),
+ * which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Not authorized to run jobs' }, { status: 401 });
+  }
+
+  try {
+    const processed = await drainJobs({ budgetMs: DRAIN_BUDGET_MS });
+    return NextResponse.json({ processed });
+  } catch (err) {
+    console.error('[jobs] Drain failed:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error occurred';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
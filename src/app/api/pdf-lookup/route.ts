@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { findMatchingPdf, extractPdfSummary } from '@/utils/pdf-repo';
-import { analyzeReferenceIntegrity } from '@/utils/integrity-analyzer';
+import { findMatchingPdf, extractPdfSummary, extractPdfFullText, fetchPdfFullText } from '@/utils/pdf-repo';
+import { analyzeClaimAgainstFullText, analyzeReferenceIntegrity, type IntegrityReview } from '@/utils/integrity-analyzer';
+import { getLlmProvider } from '@/utils/llm';
 import { searchArxivFromReference } from '@/utils/arxiv';
 import fs from 'fs';
 import path from 'path';
 
 export async function POST(req: NextRequest) {
   try {
-    const { reference, context_before, context_after } = await req.json();
+    // mode 'full_text' checks the claim against the cited paper's full text instead of its abstract
+    const { reference, context_before, context_after, mode = 'abstract' } = await req.json();
 
     if (!reference) {
       return NextResponse.json(
@@ -31,7 +33,11 @@ export async function POST(req: NextRequest) {
           pdfUrl?: string;
           id?: string;
           published?: string;
+          authors?: string[];
+          categories?: string[];
+          confidence?: number;
         };
+    let arxivCandidates: Array<{ id: string; title: string; confidence: number }> = [];
 
     if (matchingPdfFileName) {
       source = 'repo';
@@ -41,24 +47,51 @@ export async function POST(req: NextRequest) {
       fileExists = fs.existsSync(papersPath);
     } else {
       // Fallback to arXiv search using a smarter query derived from the reference
-      const arxivResult = await searchArxivFromReference(reference);
-      if (arxivResult) {
+      const lookup = await searchArxivFromReference(reference);
+      arxivCandidates = lookup.candidates.map(({ result, confidence }) => ({
+        id: result.id,
+        title: result.title,
+        confidence,
+      }));
+
+      if (lookup.status === 'ambiguous') {
+        // Several papers fit about equally well; reviewing against the wrong abstract is worse than not reviewing
+        return NextResponse.json({
+          found: false,
+          ambiguous: true,
+          message: 'arXiv returned several possible matches; none is a confident match',
+          candidates: arxivCandidates,
+        });
+      }
+
+      if (lookup.match) {
         source = 'arxiv';
-        summary = arxivResult.summary || null;
+        summary = lookup.match.summary || null;
         arxiv = {
-          title: arxivResult.title,
-          link: arxivResult.link,
-          pdfUrl: arxivResult.pdfUrl,
-          id: arxivResult.id,
-          published: arxivResult.published,
+          title: lookup.match.title,
+          link: lookup.match.link,
+          pdfUrl: lookup.match.pdfUrl,
+          id: lookup.match.id,
+          published: lookup.match.published,
+          authors: lookup.match.authors,
+          categories: lookup.match.categories,
+          confidence: lookup.confidence,
         };
       }
     }
 
     if (!source || !summary) {
+      const integrity: IntegrityReview = {
+        state: 'no_source',
+        score: null,
+        justification: null,
+        reason: 'The cited paper was not found in the repository or on arXiv',
+      };
       return NextResponse.json({
         found: false,
         message: 'PDF not found in repository or arXiv',
+        integrity,
+        candidates: arxivCandidates,
       });
     }
 
@@ -67,30 +100,49 @@ export async function POST(req: NextRequest) {
       .filter(Boolean)
       .join(' [...citation...] ');
 
-    // Analyze reference integrity using OpenAI (only when summary available)
-    let integrityReview = {
-      score: 10,
-      justification: source === 'repo' ? 'Paper found in repository' : 'Paper found on arXiv',
-      analyzed: false,
+    // Analyze reference integrity with the configured LLM; without a usable
+    // answer the review stays unscored and says why
+    let integrityReview: IntegrityReview & {
+      mode?: 'abstract' | 'full_text';
+      quote?: string | null;
+    } = {
+      state: 'skipped',
+      score: null,
+      justification: null,
+      reason: 'No LLM provider is configured',
     };
 
-    if (process.env.OPENAI_API_KEY) {
+    if (getLlmProvider()) {
       try {
-        const review = await analyzeReferenceIntegrity(
-          reference,
-          fullContext || reference,
-          summary
-        );
-        if (review.score > 0) {
+        const fullText = mode === 'full_text' ? await loadFullText(fileName, arxiv?.pdfUrl) : null;
+        // Falls back to the abstract when the full text is unavailable or says nothing relevant
+        const fullTextReview = fullText ? await analyzeClaimAgainstFullText(reference, fullContext || reference, fullText) : null;
+
+        if (fullTextReview) {
           integrityReview = {
-            score: review.score,
-            justification: review.justification,
-            analyzed: true,
+            state: 'scored',
+            score: fullTextReview.score,
+            justification: fullTextReview.justification,
+            reason: null,
+            mode: 'full_text',
+            quote: fullTextReview.quote,
           };
+        } else {
+          const review = await analyzeReferenceIntegrity(
+            reference,
+            fullContext || reference,
+            summary
+          );
+          integrityReview = { ...review, mode: 'abstract' };
         }
       } catch (err) {
-        console.error('OpenAI analysis failed:', err);
-        // Fall back to default score
+        console.error('LLM analysis failed:', err);
+        integrityReview = {
+          state: 'failed',
+          score: null,
+          justification: null,
+          reason: `Analysis failed: ${err instanceof Error ? err.message : String(err)}`,
+        };
       }
     }
 
@@ -101,6 +153,7 @@ export async function POST(req: NextRequest) {
       summary,
       integrity: integrityReview,
       arxiv,
+      candidates: arxivCandidates,
       fileExists,
     });
   } catch (err) {
@@ -113,3 +166,10 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+// The repo copy when there is one, otherwise the arXiv PDF
+async function loadFullText(fileName: string | null, pdfUrl: string | undefined): Promise<string | null> {
+  if (fileName) return extractPdfFullText(fileName);
+  if (pdfUrl) return fetchPdfFullText(pdfUrl);
+  return null;
+}
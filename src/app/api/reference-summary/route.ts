@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { getLlmProvider } from '@/utils/llm';
+import { REFERENCE_SUMMARY, renderPrompt } from '@/utils/prompts';
 
 export const runtime = 'nodejs';
 
@@ -11,8 +12,9 @@ interface Review {
 
 export async function POST(req: NextRequest) {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({ summary: null, message: 'OpenAI key missing' });
+    const llm = getLlmProvider();
+    if (!llm) {
+      return NextResponse.json({ summary: null, message: 'LLM provider not configured' });
     }
 
     const { reviews } = await req.json();
@@ -22,22 +24,10 @@ export async function POST(req: NextRequest) {
 
     const limited = reviews.slice(0, 10) as Review[]; // cap for prompt size
 
-    const prompt = `You are summarizing reference integrity checks.
-Each item has a score (1-10) and a short justification.
-Provide a concise overall verdict (2-3 sentences) noting strengths and risks, and a one-line recommendation.
-
-Reviews:\n${limited
-      .map((r: Review, i: number) => `${i + 1}. Score ${r.score}/10 - ${r.justification}`)
-      .join('\n')}`;
-
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const completion = await client.responses.create({
-      model: 'gpt-4o-mini',
-      input: prompt,
-      max_output_tokens: 180,
+    const text = await llm.complete({
+      messages: renderPrompt(REFERENCE_SUMMARY, { reviews: limited }),
+      maxTokens: 180,
     });
-
-    const text = completion.output_text || null;
     return NextResponse.json({ summary: text });
   } catch (err) {
     console.error('Error in /api/reference-summary:', err);
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importRetractionDataset } from '@/utils/retractions';
+import type { RetractionNoticeType } from '@/types/database';
+
+const NOTICE_TYPES: RetractionNoticeType[] = ['retraction', 'expression_of_concern', 'correction'];
+
+/**
+ * Import the Retraction Watch CSV or a DOI list into retraction_notices.
+ * Form fields: file, source (replaces that source's earlier import),
+ * noticeType (for DOI lists; defaults to retraction).
+ * Requires `Authorization: Bearer $RETRACTIONS_IMPORT_TOKEN`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = process.env.RETRACTIONS_IMPORT_TOKEN;
+    if (!token || request.headers.get('authorization') !== `Bearer ${token}`) {
+      return NextResponse.json({ error: 'Not authorized to import retraction data' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const source = String(formData.get('source') || 'retraction_watch').trim();
+    const noticeType = String(formData.get('noticeType') || 'retraction') as RetractionNoticeType;
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (!NOTICE_TYPES.includes(noticeType)) {
+      return NextResponse.json(
+        { error: `noticeType must be one of ${NOTICE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[retractions/import] Importing ${file.name} (${file.size} bytes) as ${source}`);
+
+    const result = await importRetractionDataset(await file.text(), { source, defaultType: noticeType });
+
+    return NextResponse.json({ source, ...result }, { status: 200 });
+  } catch (err) {
+    console.error('[retractions/import] Error:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error occurred';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -343,7 +343,7 @@ export default function DashboardPage() {
                 <input
                   id="dashboard-upload"
                   type="file"
-                  accept="application/pdf"
+                  accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.zip,.tar,.tar.gz,.tgz,.xml,.nxml"
                   className="hidden"
                   disabled={uploading}
                   onChange={(e) => {
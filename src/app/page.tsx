@@ -137,7 +137,7 @@ export default function HomePage() {
               <input
                 id="hero-upload"
                 type="file"
-                accept="application/pdf"
+                accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.zip,.tar,.tar.gz,.tgz,.xml,.nxml"
                 className="hidden"
                 disabled={uploading}
                 onChange={(e) => {
@@ -366,7 +366,7 @@ export default function HomePage() {
                 <input
                   id="pricing-free-upload"
                   type="file"
-                  accept="application/pdf"
+                  accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.zip,.tar,.tar.gz,.tgz,.xml,.nxml"
                   className="hidden"
                   disabled={uploading}
                   onChange={(e) => {
@@ -454,7 +454,7 @@ export default function HomePage() {
               <input
                 id="footer-upload"
                 type="file"
-                accept="application/pdf"
+                accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.zip,.tar,.tar.gz,.tgz,.xml,.nxml"
                 className="hidden"
                 disabled={uploading}
                 onChange={(e) => {
@@ -1,6 +1,11 @@
 import { getSupabaseServiceClient } from '@/utils/supabase/client';
+import { findActiveProcessingJob } from '@/utils/database/operations';
 import ReferencesList from '@/components/ReferencesList';
 import ValidateButton from '@/components/ValidateButton';
+import CitationReportPanel from '@/components/CitationReportPanel';
+import { describeStanceSummary } from '@/utils/verification/stance';
+import { describeProvenance } from '@/utils/prompts/provenance';
+import type { CitationOccurrence, CitationReport, RetractionStatus, SkippedReference } from '@/types/database';
 
 type ReferencesPageProps = {
   params: Promise<{ documentId?: string }>;
@@ -67,7 +72,7 @@ export default async function ReferencesPage(props: ReferencesPageProps) {
   // Then get the document references
   const { data, error } = await supabase
     .from('document_references')
-    .select('id, raw_citation_text, first_author, second_author, last_author, year, publication, context_before, context_after, integrity_score, ai_review, existence_score, existence_check, context_integrity_score, context_integrity_review, position_in_doc, created_at')
+    .select('id, raw_citation_text, first_author, second_author, last_author, year, publication, context_before, context_after, integrity_score, ai_review, existence_score, existence_check, existence_details, existence_provenance, context_integrity_score, context_integrity_review, context_review_state, context_review_reason, context_review_provenance, stance_counts, position_in_doc, duplicate_of_position, match_status, retraction_status, retraction_details, created_at, canonical_reference:canonical_references(doi, title, journal, publication_year), citation_occurrences(occurrence_index, page_number, paragraph_number, bounding_boxes)')
     .eq('document_id', documentId)
     .order('position_in_doc', { ascending: true, nullsFirst: false });
 
@@ -97,14 +102,45 @@ export default async function ReferencesPage(props: ReferencesPageProps) {
     integrity_explanation: ref.ai_review,
     existence_score: ref.existence_score,
     existence_check: ref.existence_check,
+    existence_details: ref.existence_details ?? [],
+    existence_provenance: ref.existence_provenance ?? null,
     context_integrity_score: ref.context_integrity_score,
     context_integrity_review: ref.context_integrity_review,
-    match_status: null,
+    context_review_state: ref.context_review_state ?? null,
+    context_review_reason: ref.context_review_reason ?? null,
+    context_review_provenance: ref.context_review_provenance ?? null,
+    stance_counts: ref.stance_counts ?? {},
+    match_status: ref.match_status ?? null,
+    canonical_reference: ref.canonical_reference ?? null,
+    retraction_status: ref.retraction_status ?? null,
+    retraction_details: ref.retraction_details ?? [],
+    position_in_doc: ref.position_in_doc,
+    duplicate_of_position: ref.duplicate_of_position,
     created_at: ref.created_at,
+    occurrences: ((ref.citation_occurrences ?? []) as CitationOccurrence[])
+      .sort((a, b) => a.occurrence_index - b.occurrence_index),
   }));
 
   const doc = document as any;
 
+  // A queued or running job keeps the validate button waiting on it
+  const activeJob = doc.status === 'processing'
+    ? await findActiveProcessingJob(documentId).catch((jobError) => {
+        console.error('Error loading processing job:', jobError);
+        return null;
+      })
+    : null;
+
+  const skippedReferences: SkippedReference[] = doc.skipped_references ?? [];
+  const citationReport: CitationReport | null = doc.citation_report ?? null;
+  const screened = refs.some(r => r.retraction_status !== null);
+  const countStatus = (status: RetractionStatus) => refs.filter(r => r.retraction_status === status).length;
+  const retractedCount = countStatus('retraction');
+  const concernCount = countStatus('expression_of_concern');
+  const correctionCount = countStatus('correction');
+  const stanceDescription = citationReport?.stances ? describeStanceSummary(citationReport.stances) : '';
+  const duplicateCount = refs.filter(r => r.duplicate_of_position !== null && r.duplicate_of_position !== undefined).length;
+
   return (
     <main className="min-h-screen bg-zinc-950 text-zinc-50 flex flex-col items-center py-10 px-4">
       <div className="w-full max-w-4xl">
@@ -133,7 +169,7 @@ export default async function ReferencesPage(props: ReferencesPageProps) {
           </div>
           
           {/* Document Stats */}
-          <div className="grid grid-cols-3 gap-4 pt-4 border-t border-zinc-800">
+          <div className="grid grid-cols-4 gap-4 pt-4 border-t border-zinc-800">
             <div>
               <p className="text-xs text-zinc-500 mb-1">Status</p>
               <p className={`text-sm font-medium ${
@@ -149,7 +185,15 @@ export default async function ReferencesPage(props: ReferencesPageProps) {
             </div>
             <div>
               <p className="text-xs text-zinc-500 mb-1">Total References</p>
-              <p className="text-sm font-medium text-zinc-100">{doc.total_references}</p>
+              <p className="text-sm font-medium text-zinc-100">
+                {doc.total_references}
+                {skippedReferences.length > 0 && (
+                  <span className="text-zinc-500"> of {doc.parsed_references} parsed</span>
+                )}
+                {duplicateCount > 0 && (
+                  <span className="text-amber-400"> (+{duplicateCount} duplicate{duplicateCount === 1 ? '' : 's'})</span>
+                )}
+              </p>
             </div>
             <div>
               <p className="text-xs text-zinc-500 mb-1">Overall Integrity</p>
@@ -164,9 +208,54 @@ export default async function ReferencesPage(props: ReferencesPageProps) {
                 <p className="text-sm text-zinc-500">Not calculated</p>
               )}
             </div>
+            <div>
+              <p className="text-xs text-zinc-500 mb-1">Retractions</p>
+              {!screened ? (
+                <p className="text-sm text-zinc-500">Not screened</p>
+              ) : retractedCount + concernCount + correctionCount === 0 ? (
+                <p className="text-sm font-medium text-emerald-400">None found</p>
+              ) : (
+                <div className="text-sm font-medium space-y-0.5">
+                  {retractedCount > 0 && <p className="text-red-400">⛔ {retractedCount} retracted</p>}
+                  {concernCount > 0 && <p className="text-amber-400">⚠ {concernCount} expression{concernCount === 1 ? '' : 's'} of concern</p>}
+                  {correctionCount > 0 && <p className="text-zinc-300">{correctionCount} corrected</p>}
+                </div>
+              )}
+            </div>
           </div>
+
+          {/* Citation intent, once stances have been classified */}
+          {stanceDescription && (
+            <p className="pt-3 text-sm text-zinc-400">
+              <span className="text-xs text-zinc-500 mr-2">Citation intent</span>
+              This paper {stanceDescription}.
+            </p>
+          )}
         </div>
 
+        {/* References held back by the plan cap */}
+        {skippedReferences.length > 0 && (
+          <div className="mb-6 rounded-2xl border border-amber-800 bg-amber-900/20 p-6">
+            <h2 className="text-lg font-semibold mb-2 text-amber-300">
+              {skippedReferences.length} reference{skippedReferences.length === 1 ? '' : 's'} not processed
+            </h2>
+            <p className="text-sm text-amber-200/80 mb-3">
+              {skippedReferences[0].detail || 'These entries were parsed but not stored.'}
+            </p>
+            <ul className="space-y-1 text-xs text-zinc-400 list-none">
+              {skippedReferences.map((ref) => (
+                <li key={ref.position}>
+                  <span className="font-mono text-zinc-500 mr-2">#{ref.position + 1}</span>
+                  {ref.raw_reference}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Orphan and dangling citations (documents parsed before the report have none) */}
+        {citationReport && <CitationReportPanel report={citationReport} />}
+
         {/* AI Review Report */}
         {doc.ai_review_report && (
           <div className="mb-6 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-6">
@@ -174,6 +263,9 @@ export default async function ReferencesPage(props: ReferencesPageProps) {
             <div className="prose prose-invert prose-sm max-w-none">
               <p className="text-zinc-300 whitespace-pre-wrap">{doc.ai_review_report}</p>
             </div>
+            {doc.ai_review_provenance && (
+              <p className="mt-3 text-xs text-zinc-500">{describeProvenance(doc.ai_review_provenance)}</p>
+            )}
           </div>
         )}
 
@@ -184,7 +276,8 @@ export default async function ReferencesPage(props: ReferencesPageProps) {
           {/* Validate Button */}
           <ValidateButton 
             documentId={documentId} 
-            hasValidation={refs.some(r => r.existence_score !== null || r.context_integrity_score !== null)} 
+            hasValidation={!activeJob && refs.some(r => r.existence_score !== null || r.context_integrity_score !== null)} 
+            activeJobId={activeJob?.id ?? null}
           />
           
           {refs.length === 0 ? (
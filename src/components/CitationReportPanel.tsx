@@ -0,0 +1,119 @@
+import type { CitationReport } from '@/types/database';
+
+interface CitationReportPanelProps {
+  report: CitationReport;
+}
+
+export default function CitationReportPanel({ report }: CitationReportPanelProps) {
+  const { unresolved_citations: unresolved, uncited_references: uncited, out_of_range_citations: outOfRange } = report;
+  const publishedVersions = report.published_versions ?? [];
+  const total = unresolved.length + uncited.length + outOfRange.length + publishedVersions.length;
+
+  if (total === 0) {
+    return (
+      <div className="mb-6 rounded-2xl border border-emerald-800 bg-emerald-900/20 p-4">
+        <p className="text-sm text-emerald-300">
+          ✓ Every in-text citation resolves to a reference, and every reference is cited.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 rounded-2xl border border-red-900 bg-red-950/20 p-6">
+      <h2 className="text-lg font-semibold mb-1 text-red-300">
+        {total} citation issue{total === 1 ? '' : 's'}
+      </h2>
+      <p className="text-sm text-zinc-400 mb-4">
+        Missing and uncited references are a common reason for desk rejection.
+      </p>
+
+      {unresolved.length > 0 && (
+        <section className="mb-4">
+          <h3 className="text-sm font-medium text-zinc-200 mb-2">
+            Citations with no matching reference ({unresolved.length})
+          </h3>
+          <ul className="space-y-1 text-xs text-zinc-400 list-none">
+            {unresolved.map((citation) => (
+              <li key={citation.citation_id}>
+                <span className="font-mono text-zinc-300">{citation.raw_text}</span>
+                {citation.occurrences > 1 && (
+                  <span className="text-zinc-500"> ×{citation.occurrences}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {outOfRange.length > 0 && (
+        <section className="mb-4">
+          <h3 className="text-sm font-medium text-zinc-200 mb-2">
+            Citations past the end of the reference list ({outOfRange.length})
+          </h3>
+          <ul className="space-y-1 text-xs text-zinc-400 list-none">
+            {outOfRange.map((citation) => (
+              <li key={citation.raw_text}>
+                <span className="font-mono text-zinc-300">{citation.raw_text}</span>
+                <span className="text-zinc-500">
+                  {' '}cites {citation.numbers.join(', ')} but the list ends at {citation.list_length}
+                  {citation.occurrences > 1 && ` (×${citation.occurrences})`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {publishedVersions.length > 0 && (
+        <section className="mb-4">
+          <h3 className="text-sm font-medium text-zinc-200 mb-2">
+            Cited preprints that have a peer-reviewed version ({publishedVersions.length})
+          </h3>
+          <ul className="space-y-1 text-xs text-zinc-400 list-none">
+            {publishedVersions.map((ref) => (
+              <li key={ref.position}>
+                <span className="font-mono text-zinc-500 mr-2">#{ref.position + 1}</span>
+                {ref.raw_reference}
+                <span className="block text-zinc-500 mt-0.5">
+                  arXiv:{ref.arxiv_id} was published
+                  {ref.journal_ref && ` in ${ref.journal_ref}`}
+                  {ref.published_doi && (
+                    <>
+                      {' '}as{' '}
+                      <a
+                        href={`https://doi.org/${ref.published_doi}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-zinc-300 underline hover:text-zinc-100"
+                      >
+                        {ref.published_doi}
+                      </a>
+                    </>
+                  )}
+                  ; cite the version of record instead
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {uncited.length > 0 && (
+        <section>
+          <h3 className="text-sm font-medium text-zinc-200 mb-2">
+            References never cited in the text ({uncited.length})
+          </h3>
+          <ul className="space-y-1 text-xs text-zinc-400 list-none">
+            {uncited.map((ref) => (
+              <li key={ref.position}>
+                <span className="font-mono text-zinc-500 mr-2">#{ref.position + 1}</span>
+                {ref.raw_reference}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { describeStage, stageFraction } from '@/utils/jobs/stages';
+import type { ProcessingStage } from '@/types/database';
+
+interface DocumentProgressProps {
+  documentId: string;
+  onFinished: (status: 'completed' | 'failed', error: string | null) => void;
+  tone?: 'dark' | 'light'; // the references page is dark, the upload form light
+}
+
+// The parts of the stream's events the bar uses
+interface StageEvent {
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  stage: ProcessingStage | null;
+  attempts: number;
+  maxAttempts: number;
+}
+
+interface ProgressEvent {
+  stage: ProcessingStage;
+  done: number | null;
+  total: number | null;
+}
+
+export default function DocumentProgress({ documentId, onFinished, tone = 'dark' }: DocumentProgressProps) {
+  const [stage, setStage] = useState<StageEvent | null>(null);
+  const [progress, setProgress] = useState<ProgressEvent | null>(null);
+
+  // The stream outlives re-renders; keep the latest callback without reconnecting
+  const onFinishedRef = useRef(onFinished);
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    const events = new EventSource(`/api/documents/${documentId}/events`);
+
+    events.addEventListener('stage', (event) => {
+      const data: StageEvent = JSON.parse((event as MessageEvent).data);
+      setStage(data);
+      setProgress(current => (current && current.stage === data.stage ? current : null));
+    });
+    events.addEventListener('progress', (event) => {
+      setProgress(JSON.parse((event as MessageEvent).data));
+    });
+    events.addEventListener('done', (event) => {
+      events.close();
+      const data = JSON.parse((event as MessageEvent).data);
+      onFinishedRef.current(data.status === 'completed' ? 'completed' : 'failed', data.error ?? null);
+    });
+
+    return () => events.close();
+  }, [documentId]);
+
+  const current = progress ?? (stage?.stage ? { stage: stage.stage, done: null, total: null } : null);
+  const fraction = current ? stageFraction(current.stage, current.done, current.total) : 0;
+
+  let label = 'Waiting for a worker…';
+  if (stage?.status === 'queued' && stage.attempts > 0) {
+    label = `Retrying after an error (attempt ${stage.attempts + 1} of ${stage.maxAttempts})…`;
+  } else if (current) {
+    label = describeStage(current.stage, current.done, current.total);
+  }
+
+  const dark = tone === 'dark';
+
+  return (
+    <div className="w-full" role="status" aria-live="polite">
+      <div className={`h-2 w-full overflow-hidden rounded-full ${dark ? 'bg-zinc-800' : 'bg-slate-200'}`}>
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${dark ? 'bg-emerald-500' : 'bg-slate-900'}`}
+          style={{ width: `${Math.round(fraction * 100)}%` }}
+        />
+      </div>
+      <div className={`mt-2 flex justify-between text-xs ${dark ? 'text-zinc-400' : 'text-slate-500'}`}>
+        <span>{label}</span>
+        <span>{Math.round(fraction * 100)}%</span>
+      </div>
+    </div>
+  );
+}
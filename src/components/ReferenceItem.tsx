@@ -1,6 +1,8 @@
 'use client';
 
-import { useEffect, useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { describeProvenance } from '@/utils/prompts/provenance';
+import type { CanonicalReference, CitationOccurrence, CitationStance, ExistenceDetail, RetractionDetail, RetractionStatus, ReviewProvenance, ReviewState, StanceCounts } from '@/types/database';
 
 interface PdfMetadata {
   found?: boolean;
@@ -9,9 +11,12 @@ interface PdfMetadata {
   fileExists?: boolean | null;
   summary?: string | null;
   integrity?: {
-    score: number;
-    justification: string;
-    analyzed?: boolean;
+    state?: ReviewState;
+    score: number | null; // null unless state is 'scored'
+    justification: string | null;
+    reason?: string | null; // why there is no score
+    mode?: 'abstract' | 'full_text';
+    quote?: string | null; // full-text mode: passage of the cited paper the review relies on
   };
   arxiv?: {
     title?: string;
@@ -35,9 +40,21 @@ interface ReferenceItemProps {
     context_after?: string | null;
     existence_score?: number | null;
     existence_check?: string | null;
+    existence_details?: ExistenceDetail[];
+    existence_provenance?: ReviewProvenance | null;
     context_integrity_score?: number | null;
     context_integrity_review?: string | null;
+    context_review_state?: ReviewState | null;
+    context_review_reason?: string | null;
+    context_review_provenance?: ReviewProvenance | null;
+    stance_counts?: StanceCounts;
+    match_status?: string | null;
+    canonical_reference?: Pick<CanonicalReference, 'doi' | 'title' | 'journal' | 'publication_year'> | null;
+    retraction_status?: RetractionStatus | null;
+    retraction_details?: RetractionDetail[];
+    occurrences?: Array<Pick<CitationOccurrence, 'page_number' | 'paragraph_number' | 'bounding_boxes'>>;
   };
+  duplicates?: Array<{ id: string; raw_reference: string; position_in_doc?: number | null }>;
   metadata?: PdfMetadata | null;
   loading?: boolean;
   isSignedIn?: boolean;
@@ -45,6 +62,35 @@ interface ReferenceItemProps {
   referenceIndex?: number;
 }
 
+const FIELD_STATUS_ICONS: Record<ExistenceDetail['status'], string> = {
+  match: '✓',
+  partial: '≈',
+  mismatch: '✗',
+  invalid: '✗',
+  not_cited: '–',
+  not_in_record: '–',
+};
+
+const STANCE_CHIPS: Record<CitationStance, { label: string; className: string }> = {
+  background: { label: 'Background', className: 'bg-slate-100 text-slate-700' },
+  method: { label: 'Method use', className: 'bg-sky-100 text-sky-800' },
+  supporting: { label: 'Supporting evidence', className: 'bg-emerald-100 text-emerald-800' },
+  contrasting: { label: 'Contrasting evidence', className: 'bg-orange-100 text-orange-800' },
+  comparison: { label: 'Comparison', className: 'bg-violet-100 text-violet-800' },
+};
+
+const NOTICE_LABELS: Record<RetractionDetail['notice_type'], string> = {
+  retraction: 'Retraction',
+  expression_of_concern: 'Expression of concern',
+  correction: 'Correction',
+};
+
+const NOTICE_BANNERS: Record<RetractionDetail['notice_type'], { title: string; className: string }> = {
+  retraction: { title: '⛔ This work has been retracted', className: 'bg-red-50 border-red-300 text-red-900' },
+  expression_of_concern: { title: '⚠️ The publisher has issued an expression of concern', className: 'bg-amber-50 border-amber-300 text-amber-900' },
+  correction: { title: 'ℹ️ This work has a published correction', className: 'bg-slate-50 border-slate-300 text-slate-800' },
+};
+
 /**
  * Get color gradient based on integrity score
  */
@@ -67,9 +113,48 @@ function getScoreIcon(score: number): string {
   return '✗';
 }
 
-export default function ReferenceItem({ reference, metadata, loading, isSignedIn, citationStyle = 'IEEE', referenceIndex = 1 }: ReferenceItemProps) {
+export default function ReferenceItem({ reference, duplicates = [], metadata, loading, isSignedIn, citationStyle = 'IEEE', referenceIndex = 1 }: ReferenceItemProps) {
   const pdfMetadata: PdfMetadata | null = useMemo(() => metadata ?? null, [metadata]);
   const isLoading = loading ?? !metadata;
+  const [paperCheck, setPaperCheck] = useState<PdfMetadata['integrity'] | null>(null);
+  const [paperCheckLoading, setPaperCheckLoading] = useState(false);
+
+  // Fetching and reading the cited paper is slow, so it runs on request rather than during validation
+  const checkAgainstPaper = async () => {
+    setPaperCheckLoading(true);
+    try {
+      const response = await fetch('/api/pdf-lookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reference: reference.raw_reference,
+          context_before: reference.context_before,
+          context_after: reference.context_after,
+          mode: 'full_text',
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'The check failed');
+      }
+      // An ambiguous arXiv match comes back without a review
+      setPaperCheck(data.integrity ?? {
+        state: 'no_source',
+        score: null,
+        justification: null,
+        reason: data.message || 'The cited paper could not be found',
+      });
+    } catch (err) {
+      setPaperCheck({
+        state: 'failed',
+        score: null,
+        justification: null,
+        reason: err instanceof Error ? err.message : 'The check failed',
+      });
+    } finally {
+      setPaperCheckLoading(false);
+    }
+  };
 
   // Debug: Log what context we have
   useEffect(() => {
@@ -122,8 +207,49 @@ export default function ReferenceItem({ reference, metadata, loading, isSignedIn
   // Split multiple contexts (separated by |)
   const contexts = reference.context_before ? reference.context_before.split(' | ') : [];
 
+  const notice = reference.retraction_status && reference.retraction_status !== 'none'
+    ? NOTICE_BANNERS[reference.retraction_status]
+    : null;
+
+  // Page locations are only known for PDFs
+  const locations = (reference.occurrences ?? []).filter(o => o.page_number !== null);
+  // Most frequent citation intent first
+  const stances = (Object.entries(reference.stance_counts ?? {}) as Array<[CitationStance, number]>)
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1]);
+
   return (
-    <li className="border border-slate-200 rounded-lg px-5 py-4 text-sm bg-white shadow-sm hover:shadow-md transition-shadow">
+    <li className={`border rounded-lg px-5 py-4 text-sm bg-white shadow-sm hover:shadow-md transition-shadow ${
+      reference.retraction_status === 'retraction' ? 'border-red-500 border-2' : 'border-slate-200'
+    }`}>
+      {/* Retraction notices come first: citing retracted work outweighs everything below */}
+      {notice && (
+        <div className={`mb-3 p-3 rounded-lg border ${notice.className}`}>
+          <p className="text-sm font-bold">{notice.title}</p>
+          <ul className="mt-1 space-y-0.5 list-none text-xs">
+            {(reference.retraction_details ?? []).map((detail, idx) => (
+              <li key={idx}>
+                {NOTICE_LABELS[detail.notice_type]}
+                {detail.notice_date && ` on ${detail.notice_date}`}
+                {detail.notice_doi && (
+                  <>
+                    {' · '}
+                    <a
+                      href={`https://doi.org/${detail.notice_doi}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono underline"
+                    >
+                      {detail.notice_doi}
+                    </a>
+                  </>
+                )}
+                {detail.reason && <span className="block opacity-80">Reason: {detail.reason}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       {/* Main citation display with context */}
       <div className="mb-3">
         {/* Context with inline citation */}
@@ -157,6 +283,68 @@ export default function ReferenceItem({ reference, metadata, loading, isSignedIn
               Cited {contexts.length} times in this document
             </p>
           )}
+          {locations.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-2">
+              <span className="text-xs text-slate-500">Cited at:</span>
+              {locations.map((location, idx) => (
+                <span
+                  key={idx}
+                  className="inline-flex items-center px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded text-xs font-mono"
+                  title={location.bounding_boxes.map(b => `(${Math.round(b.x)}, ${Math.round(b.y)}) ${Math.round(b.width)}×${Math.round(b.height)}pt`).join('; ')}
+                >
+                  p. {location.page_number}
+                  {location.paragraph_number !== null && `, ¶${location.paragraph_number}`}
+                </span>
+              ))}
+            </div>
+          )}
+          {reference.match_status === 'matched' && reference.canonical_reference && (
+            <p className="text-xs text-emerald-700 mt-2">
+              ✓ Matched: {reference.canonical_reference.title}
+              {reference.canonical_reference.journal && `, ${reference.canonical_reference.journal}`}
+              {reference.canonical_reference.publication_year && ` (${reference.canonical_reference.publication_year})`}
+              {reference.canonical_reference.doi && (
+                <>
+                  {' · '}
+                  <a
+                    href={`https://doi.org/${reference.canonical_reference.doi}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono underline hover:text-emerald-900"
+                  >
+                    {reference.canonical_reference.doi}
+                  </a>
+                </>
+              )}
+            </p>
+          )}
+          {reference.match_status === 'ambiguous' && (
+            <p className="text-xs text-amber-700 mt-2">
+              Several published works resemble this reference; it could not be matched with confidence.
+            </p>
+          )}
+          {reference.match_status === 'not_found' && (
+            <p className="text-xs text-red-700 mt-2">
+              No matching work found in Crossref or OpenAlex.
+            </p>
+          )}
+          {duplicates.length > 0 && (
+            <div className="mt-3 p-2 rounded bg-amber-50 border border-amber-200">
+              <p className="text-xs font-semibold text-amber-800 mb-1">
+                Same work listed {duplicates.length} more time{duplicates.length === 1 ? '' : 's'} in the bibliography
+              </p>
+              <ul className="space-y-1 list-none">
+                {duplicates.map((duplicate) => (
+                  <li key={duplicate.id} className="text-xs text-amber-900">
+                    {duplicate.position_in_doc !== null && duplicate.position_in_doc !== undefined && (
+                      <span className="font-mono text-amber-700 mr-2">#{duplicate.position_in_doc + 1}</span>
+                    )}
+                    {duplicate.raw_reference}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
@@ -186,6 +374,20 @@ export default function ReferenceItem({ reference, metadata, loading, isSignedIn
               {reference.existence_check}
             </p>
           )}
+          {reference.existence_provenance && (
+            <p className="mt-1 text-[11px] text-slate-500">{describeProvenance(reference.existence_provenance)}</p>
+          )}
+          {(reference.existence_details ?? []).length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {(reference.existence_details ?? []).map((detail) => (
+                <li key={detail.field} className="text-xs text-slate-700 flex gap-2">
+                  <span className="w-4 text-center font-bold text-blue-700">{FIELD_STATUS_ICONS[detail.status]}</span>
+                  <span className="w-14 font-semibold capitalize">{detail.field}</span>
+                  <span className="flex-1">{detail.note}</span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
@@ -215,6 +417,29 @@ export default function ReferenceItem({ reference, metadata, loading, isSignedIn
               {reference.context_integrity_review}
             </p>
           )}
+          {reference.context_review_provenance && (
+            <p className="mt-1 text-[11px] text-slate-500">{describeProvenance(reference.context_review_provenance)}</p>
+          )}
+          {stances.length > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-1.5">
+              <span className="text-xs font-semibold text-purple-700">Cited as:</span>
+              {stances.map(([stance, count]) => (
+                <span key={stance} className={`rounded-full px-2 py-0.5 text-xs font-medium ${STANCE_CHIPS[stance].className}`}>
+                  {STANCE_CHIPS[stance].label}{count > 1 && ` ×${count}`}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : reference.context_review_state === 'failed' ? (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-lg">✗</span>
+            <p className="text-sm font-semibold text-red-700">Context Integrity Not Assessed</p>
+          </div>
+          <p className="text-xs text-red-600">
+            {reference.context_review_reason || 'The AI review failed.'} This reference is left out of the document score; validate again to retry.
+          </p>
         </div>
       ) : (reference.context_before || reference.context_after) ? (
         <div className="p-3 rounded-lg bg-amber-50 border border-amber-200">
@@ -223,7 +448,7 @@ export default function ReferenceItem({ reference, metadata, loading, isSignedIn
             <p className="text-sm font-semibold text-amber-700">Context Integrity Review Pending</p>
           </div>
           <p className="text-xs text-amber-600">
-            Context was found in the document. AI review is processing or may have failed. Try re-uploading the document.
+            Context was found in the document but has not been reviewed yet. Validate the references to review it.
           </p>
         </div>
       ) : (
@@ -237,6 +462,45 @@ export default function ReferenceItem({ reference, metadata, loading, isSignedIn
           </p>
         </div>
       )}
+
+      {/* Claim check against the cited paper's full text, with the passage it rests on */}
+      {(reference.context_before || reference.context_after) && (
+        <div className="mt-3 p-3 rounded-lg bg-indigo-50 border border-indigo-200">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold text-indigo-700">📄 Claim vs. Cited Paper</p>
+            <button
+              type="button"
+              onClick={checkAgainstPaper}
+              disabled={paperCheckLoading}
+              className="rounded-md border border-indigo-300 bg-white px-2.5 py-1 text-xs font-medium text-indigo-700 hover:bg-indigo-100 disabled:opacity-50"
+            >
+              {paperCheckLoading ? 'Reading the paper…' : paperCheck ? 'Check again' : 'Check against full text'}
+            </button>
+          </div>
+          {paperCheck && (paperCheck.state === 'scored' && paperCheck.score !== null ? (
+            <div className="mt-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-indigo-600">
+                  {paperCheck.mode === 'full_text'
+                    ? 'Checked against passages of the full text'
+                    : 'Full text unavailable or silent on the claim; checked against the abstract'}
+                </p>
+                <span className="text-sm font-bold text-indigo-900">{paperCheck.score}/10</span>
+              </div>
+              {paperCheck.justification && (
+                <p className="mt-1 text-sm text-slate-700 leading-relaxed">{paperCheck.justification}</p>
+              )}
+              {paperCheck.quote && (
+                <blockquote className="mt-2 border-l-4 border-indigo-300 pl-3 text-xs italic text-slate-700">
+                  “{paperCheck.quote}”
+                </blockquote>
+              )}
+            </div>
+          ) : (
+            <p className="mt-2 text-xs text-indigo-600">{paperCheck.reason || 'The cited paper could not be checked.'}</p>
+          ))}
+        </div>
+      )}
     </li>
   );
 }
@@ -6,6 +6,7 @@ import type { Session } from '@supabase/supabase-js';
 import ReferenceItem from '@/components/ReferenceItem';
 import InlineSignUp from '@/components/InlineSignUp';
 import { getBrowserSupabaseClient } from '@/utils/supabase/browser';
+import type { CanonicalReference, CitationOccurrence, ExistenceDetail, RetractionDetail, RetractionStatus, ReviewProvenance, ReviewState, StanceCounts } from '@/types/database';
 
 interface Reference {
   id: string;
@@ -16,9 +17,21 @@ interface Reference {
   integrity_explanation?: string | null;
   existence_score?: number | null;
   existence_check?: string | null;
+  existence_details?: ExistenceDetail[];
+  existence_provenance?: ReviewProvenance | null;
   context_integrity_score?: number | null;
   context_integrity_review?: string | null;
+  context_review_state?: ReviewState | null;
+  context_review_reason?: string | null;
+  context_review_provenance?: ReviewProvenance | null;
+  stance_counts?: StanceCounts;
   match_status?: string | null;
+  canonical_reference?: Pick<CanonicalReference, 'doi' | 'title' | 'journal' | 'publication_year'> | null;
+  retraction_status?: RetractionStatus | null;
+  retraction_details?: RetractionDetail[];
+  occurrences?: Array<Pick<CitationOccurrence, 'page_number' | 'paragraph_number' | 'bounding_boxes'>>;
+  position_in_doc?: number | null;
+  duplicate_of_position?: number | null; // set when an earlier entry describes the same work
 }
 
 interface PdfMetadata {
@@ -28,9 +41,10 @@ interface PdfMetadata {
   fileExists?: boolean | null;
   summary?: string | null;
   integrity?: {
-    score: number;
-    justification: string;
-    analyzed?: boolean;
+    state?: ReviewState;
+    score: number | null; // null unless state is 'scored'
+    justification: string | null;
+    reason?: string | null; // why there is no score
   };
   arxiv?: {
     title?: string;
@@ -82,21 +96,42 @@ export default function ReferencesList({
     };
   }, [supabase]);
 
+  const duplicatesByPosition = useMemo(() => {
+    const groups = new Map<number, Reference[]>();
+    for (const ref of references) {
+      if (isDistinct(ref)) continue;
+      const canonical = ref.duplicate_of_position as number;
+      groups.set(canonical, [...(groups.get(canonical) ?? []), ref]);
+    }
+    return groups;
+  }, [references]);
+
   useEffect(() => {
     async function fetchAndSort() {
-      // Use integrity scores from database instead of fetching from API
-      const refsWithMetadata: ReferenceWithMetadata[] = references.map((ref) => {
-        const hasScore = ref.integrity_score !== null && ref.integrity_score !== undefined;
-        const score = ref.integrity_score || 0;
+      // Use integrity scores from database instead of fetching from API.
+      // Duplicates are shown under the entry they repeat, not scored again
+      const refsWithMetadata: ReferenceWithMetadata[] = references.filter(isDistinct).map((ref) => {
+        const state = ref.context_review_state ?? null;
+        const hasScore = state === 'scored' && ref.integrity_score !== null && ref.integrity_score !== undefined;
+        const score = hasScore ? (ref.integrity_score as number) : 0;
         return {
           ...ref,
           pdfFound: hasScore && score > 50, // Consider "found" if scored above 50
           metadata: hasScore ? {
             found: true,
             integrity: {
+              state: 'scored',
               score: score / 10, // Convert 0-100 to 0-10 scale for display
               justification: ref.integrity_explanation || 'No explanation provided',
-              analyzed: true,
+            }
+          } : state ? {
+            // Skipped, failed or without a source: no score, only the reason
+            found: false,
+            integrity: {
+              state,
+              score: null,
+              justification: null,
+              reason: ref.context_review_reason ?? null,
             }
           } : null,
         };
@@ -115,8 +150,9 @@ export default function ReferencesList({
       const scores: number[] = [];
       let found = 0;
       sorted.forEach((item) => {
-        if (item.metadata?.integrity?.score !== null && item.metadata?.integrity?.score !== undefined) {
-          scores.push(item.metadata.integrity.score);
+        const integrity = item.metadata?.integrity;
+        if (integrity?.state === 'scored' && integrity.score !== null) {
+          scores.push(integrity.score);
           found += 1;
         }
       });
@@ -175,6 +211,7 @@ export default function ReferencesList({
         <ReferenceItem 
           key={r.id} 
           reference={r} 
+          duplicates={duplicatesByPosition.get(r.position_in_doc ?? -1)}
           metadata={r.metadata} 
           isSignedIn={!!session}
           citationStyle={citationStyle}
@@ -184,3 +221,7 @@ export default function ReferencesList({
     </ul>
   );
 }
+
+function isDistinct(ref: Reference): boolean {
+  return ref.duplicate_of_position === null || ref.duplicate_of_position === undefined;
+}
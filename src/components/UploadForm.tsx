@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import DocumentProgress from '@/components/DocumentProgress';
 
 interface UploadFormProps {
   userId?: string;
@@ -14,6 +15,7 @@ export default function UploadForm({ userId }: UploadFormProps) {
   const [fileName, setFileName] = useState<string | null>(null);
   const [duplicateDocId, setDuplicateDocId] = useState<string | null>(null);
   const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [processingDocId, setProcessingDocId] = useState<string | null>(null); // extraction queued; follow its progress
 
   async function handleSubmit(e: React.FormEvent<HTMLFormElement>, overwrite = false) {
     e.preventDefault();
@@ -25,7 +27,7 @@ export default function UploadForm({ userId }: UploadFormProps) {
     const file = overwrite && pendingFile ? pendingFile : fileInput.files?.[0];
     
     if (!file) {
-      setStatus('Please choose a PDF first.');
+      setStatus('Please choose a PDF, Word document or LaTeX archive first.');
       return;
     }
 
@@ -83,9 +85,10 @@ export default function UploadForm({ userId }: UploadFormProps) {
       setDuplicateDocId(null);
       setPendingFile(null);
 
-      // Redirect directly to references page
+      // Extraction runs in the background; redirect once it is done
       if (json.documentId) {
-        router.push(`/references/${json.documentId}`);
+        setStatus(null);
+        setProcessingDocId(json.documentId);
       } else {
         setStatus('Error: No document ID returned');
       }
@@ -101,6 +104,17 @@ export default function UploadForm({ userId }: UploadFormProps) {
     }
   }
 
+  function handleProcessingFinished(status: 'completed' | 'failed', error: string | null) {
+    const documentId = processingDocId;
+    setProcessingDocId(null);
+
+    if (status === 'completed' && documentId) {
+      router.push(`/references/${documentId}`);
+    } else {
+      setStatus('Error: ' + (error || 'Reference extraction failed'));
+    }
+  }
+
   function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     setFileName(file ? file.name : null);
@@ -115,7 +129,7 @@ export default function UploadForm({ userId }: UploadFormProps) {
         className="flex flex-col items-center justify-center gap-2 border border-dashed border-slate-300 rounded-xl px-4 py-6 cursor-pointer hover:border-slate-400 transition"
       >
         <span className="text-sm font-medium text-slate-700">
-          {fileName ? 'Selected file' : 'Upload PDF'}
+          {fileName ? 'Selected file' : 'Upload PDF, Word or LaTeX archive'}
         </span>
         <span className="text-xs text-slate-500">
           {fileName || 'Drag & drop or click to browse'}
@@ -125,7 +139,7 @@ export default function UploadForm({ userId }: UploadFormProps) {
           id="file"
           name="file"
           type="file"
-          accept="application/pdf"
+          accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.zip,.tar,.tar.gz,.tgz,.xml,.nxml"
           className="hidden"
           onChange={handleFileChange}
         />
@@ -134,12 +148,16 @@ export default function UploadForm({ userId }: UploadFormProps) {
       {/* Verify button */}
       <button
         type="submit"
-        disabled={isLoading}
+        disabled={isLoading || processingDocId !== null}
         className="w-full inline-flex items-center justify-center rounded-full border border-slate-900 bg-slate-900 text-white text-sm font-medium px-4 py-2.5 hover:bg-black disabled:opacity-60 disabled:cursor-not-allowed transition"
       >
-        {isLoading ? 'Verifying…' : 'Verify references'}
+        {isLoading || processingDocId ? 'Verifying…' : 'Verify references'}
       </button>
 
+      {processingDocId && (
+        <DocumentProgress documentId={processingDocId} onFinished={handleProcessingFinished} tone="light" />
+      )}
+
       {/* Duplicate file confirmation */}
       {duplicateDocId && !isLoading && (
         <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4">
@@ -1,16 +1,30 @@
 'use client';
 
 import { useState } from 'react';
+import DocumentProgress from '@/components/DocumentProgress';
 
 interface ValidateButtonProps {
   documentId: string;
   hasValidation: boolean; // whether references are already validated
+  activeJobId?: string | null; // extraction or validation still running for this document
 }
 
-export default function ValidateButton({ documentId, hasValidation }: ValidateButtonProps) {
-  const [isValidating, setIsValidating] = useState(false);
+export default function ValidateButton({ documentId, hasValidation, activeJobId = null }: ValidateButtonProps) {
+  const [isValidating, setIsValidating] = useState(activeJobId !== null);
+  const [isTracking, setIsTracking] = useState(activeJobId !== null); // job queued; follow its progress
   const [error, setError] = useState<string | null>(null);
 
+  const handleFinished = (status: 'completed' | 'failed', message: string | null) => {
+    if (status === 'completed') {
+      // Refresh the page to show validation results
+      window.location.reload();
+      return;
+    }
+    setError(message || 'Validation failed');
+    setIsTracking(false);
+    setIsValidating(false);
+  };
+
   const handleValidate = async () => {
     setIsValidating(true);
     setError(null);
@@ -30,8 +44,8 @@ export default function ValidateButton({ documentId, hasValidation }: ValidateBu
         throw new Error(data.error || 'Validation failed');
       }
 
-      // Refresh the page to show validation results
-      window.location.reload();
+      // Validation runs in the background; the progress bar follows it
+      setIsTracking(true);
     } catch (err) {
       console.error('Validation error:', err);
       setError(err instanceof Error ? err.message : 'Unknown error occurred');
@@ -75,6 +89,12 @@ export default function ValidateButton({ documentId, hasValidation }: ValidateBu
           '🔍 Validate References Online'
         )}
       </button>
+
+      {isTracking && (
+        <div className="mt-3">
+          <DocumentProgress documentId={documentId} onFinished={handleFinished} />
+        </div>
+      )}
       
       {error && (
         <div className="mt-2 rounded-lg border border-red-800 bg-red-900/20 px-4 py-2">
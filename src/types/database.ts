@@ -18,6 +18,7 @@ export interface Database {
           plan_type: 'free' | 'academic' | 'pro';
           monthly_limit: number;
           monthly_used: number;
+          reference_cap: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -27,6 +28,7 @@ export interface Database {
           plan_type?: 'free' | 'academic' | 'pro';
           monthly_limit?: number;
           monthly_used?: number;
+          reference_cap?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -36,9 +38,11 @@ export interface Database {
           plan_type?: 'free' | 'academic' | 'pro';
           monthly_limit?: number;
           monthly_used?: number;
+          reference_cap?: number | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       profiles: {
         Row: {
@@ -65,6 +69,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       documents: {
         Row: {
@@ -75,7 +80,12 @@ export interface Database {
           status: 'uploaded' | 'processing' | 'completed' | 'failed';
           overall_integrity_score: number | null;
           ai_review_report: string | null;
+          ai_review_provenance: ReviewProvenance | null;
+          citation_style: string | null;
           total_references: number;
+          parsed_references: number | null;
+          skipped_references: SkippedReference[];
+          citation_report: CitationReport | null;
           created_at: string;
           updated_at: string;
         };
@@ -87,7 +97,12 @@ export interface Database {
           status?: 'uploaded' | 'processing' | 'completed' | 'failed';
           overall_integrity_score?: number | null;
           ai_review_report?: string | null;
+          ai_review_provenance?: ReviewProvenance | null;
+          citation_style?: string | null;
           total_references?: number;
+          parsed_references?: number | null;
+          skipped_references?: SkippedReference[];
+          citation_report?: CitationReport | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -99,10 +114,16 @@ export interface Database {
           status?: 'uploaded' | 'processing' | 'completed' | 'failed';
           overall_integrity_score?: number | null;
           ai_review_report?: string | null;
+          ai_review_provenance?: ReviewProvenance | null;
+          citation_style?: string | null;
           total_references?: number;
+          parsed_references?: number | null;
+          skipped_references?: SkippedReference[];
+          citation_report?: CitationReport | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       canonical_references: {
         Row: {
@@ -117,6 +138,9 @@ export interface Database {
           abstract: string | null;
           full_text_hash: string | null;
           source_api: string | null;
+          arxiv_id: string | null;
+          published_doi: string | null;
+          journal_ref: string | null;
           last_verified: string;
           created_at: string;
         };
@@ -132,6 +156,9 @@ export interface Database {
           abstract?: string | null;
           full_text_hash?: string | null;
           source_api?: string | null;
+          arxiv_id?: string | null;
+          published_doi?: string | null;
+          journal_ref?: string | null;
           last_verified?: string;
           created_at?: string;
         };
@@ -147,9 +174,13 @@ export interface Database {
           abstract?: string | null;
           full_text_hash?: string | null;
           source_api?: string | null;
+          arxiv_id?: string | null;
+          published_doi?: string | null;
+          journal_ref?: string | null;
           last_verified?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       document_references: {
         Row: {
@@ -164,12 +195,24 @@ export interface Database {
           context_before: string | null;
           context_after: string | null;
           position_in_doc: number | null;
+          duplicate_of_position: number | null;
+          canonical_reference_id: string | null;
+          match_status: MatchStatus;
+          match_score: number | null;
+          retraction_status: RetractionStatus | null;
+          retraction_details: RetractionDetail[];
           integrity_score: number | null;
           ai_review: string | null;
           existence_score: number | null;
           existence_check: string | null;
+          existence_details: ExistenceDetail[];
+          existence_provenance: ReviewProvenance | null;
           context_integrity_score: number | null;
           context_integrity_review: string | null;
+          context_review_state: ReviewState | null;
+          context_review_reason: string | null;
+          context_review_provenance: ReviewProvenance | null;
+          stance_counts: StanceCounts;
           arxiv_id: string | null;
           arxiv_title: string | null;
           arxiv_link: string | null;
@@ -192,12 +235,24 @@ export interface Database {
           context_before?: string | null;
           context_after?: string | null;
           position_in_doc?: number | null;
+          duplicate_of_position?: number | null;
+          canonical_reference_id?: string | null;
+          match_status?: MatchStatus;
+          match_score?: number | null;
+          retraction_status?: RetractionStatus | null;
+          retraction_details?: RetractionDetail[];
           integrity_score?: number | null;
           ai_review?: string | null;
           existence_score?: number | null;
           existence_check?: string | null;
+          existence_details?: ExistenceDetail[];
+          existence_provenance?: ReviewProvenance | null;
           context_integrity_score?: number | null;
           context_integrity_review?: string | null;
+          context_review_state?: ReviewState | null;
+          context_review_reason?: string | null;
+          context_review_provenance?: ReviewProvenance | null;
+          stance_counts?: StanceCounts;
           arxiv_id?: string | null;
           arxiv_title?: string | null;
           arxiv_link?: string | null;
@@ -220,12 +275,24 @@ export interface Database {
           context_before?: string | null;
           context_after?: string | null;
           position_in_doc?: number | null;
+          duplicate_of_position?: number | null;
+          canonical_reference_id?: string | null;
+          match_status?: MatchStatus;
+          match_score?: number | null;
+          retraction_status?: RetractionStatus | null;
+          retraction_details?: RetractionDetail[];
           integrity_score?: number | null;
           ai_review?: string | null;
           existence_score?: number | null;
           existence_check?: string | null;
+          existence_details?: ExistenceDetail[];
+          existence_provenance?: ReviewProvenance | null;
           context_integrity_score?: number | null;
           context_integrity_review?: string | null;
+          context_review_state?: ReviewState | null;
+          context_review_reason?: string | null;
+          context_review_provenance?: ReviewProvenance | null;
+          stance_counts?: StanceCounts;
           arxiv_id?: string | null;
           arxiv_title?: string | null;
           arxiv_link?: string | null;
@@ -236,13 +303,143 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      citation_occurrences: {
+        Row: {
+          id: string;
+          document_id: string;
+          document_reference_id: string;
+          occurrence_index: number;
+          citation_text: string;
+          char_start: number;
+          char_end: number;
+          page_number: number | null;
+          paragraph_number: number | null;
+          bounding_boxes: OccurrenceBox[];
+          context_text: string | null;
+          stance: CitationStance | null;
+          stance_rationale: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          document_id: string;
+          document_reference_id: string;
+          occurrence_index: number;
+          citation_text: string;
+          char_start: number;
+          char_end: number;
+          page_number?: number | null;
+          paragraph_number?: number | null;
+          bounding_boxes?: OccurrenceBox[];
+          context_text?: string | null;
+          stance?: CitationStance | null;
+          stance_rationale?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          document_id?: string;
+          document_reference_id?: string;
+          occurrence_index?: number;
+          citation_text?: string;
+          char_start?: number;
+          char_end?: number;
+          page_number?: number | null;
+          paragraph_number?: number | null;
+          bounding_boxes?: OccurrenceBox[];
+          context_text?: string | null;
+          stance?: CitationStance | null;
+          stance_rationale?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      retraction_notices: {
+        Row: {
+          id: string;
+          doi: string;
+          notice_type: RetractionNoticeType;
+          notice_doi: string | null;
+          notice_date: string | null;
+          reason: string | null;
+          source: string;
+          imported_at: string;
+        };
+        Insert: {
+          id?: string;
+          doi: string;
+          notice_type: RetractionNoticeType;
+          notice_doi?: string | null;
+          notice_date?: string | null;
+          reason?: string | null;
+          source: string;
+          imported_at?: string;
+        };
+        Update: {
+          id?: string;
+          doi?: string;
+          notice_type?: RetractionNoticeType;
+          notice_doi?: string | null;
+          notice_date?: string | null;
+          reason?: string | null;
+          source?: string;
+          imported_at?: string;
+        };
+        Relationships: [];
+      };
+      retraction_notice_imports: {
+        Row: {
+          id: string;
+          import_id: string;
+          doi: string;
+          notice_type: RetractionNoticeType;
+          notice_doi: string | null;
+          notice_date: string | null;
+          reason: string | null;
+          source: string;
+          imported_at: string;
+        };
+        Insert: {
+          id?: string;
+          import_id: string;
+          doi: string;
+          notice_type: RetractionNoticeType;
+          notice_doi?: string | null;
+          notice_date?: string | null;
+          reason?: string | null;
+          source: string;
+          imported_at?: string;
+        };
+        Update: {
+          id?: string;
+          import_id?: string;
+          doi?: string;
+          notice_type?: RetractionNoticeType;
+          notice_doi?: string | null;
+          notice_date?: string | null;
+          reason?: string | null;
+          source?: string;
+          imported_at?: string;
+        };
+        Relationships: [];
       };
       processing_jobs: {
         Row: {
           id: string;
           document_id: string;
-          job_type: 'parse_references' | 'match_canonical' | 'verify_integrity';
-          status: 'queued' | 'running' | 'completed' | 'failed';
+          job_type: ProcessingJobType;
+          status: ProcessingJobStatus;
+          payload: ProcessingJobPayload;
+          attempts: number;
+          max_attempts: number;
+          run_after: string;
+          locked_by: string | null;
+          locked_at: string | null;
+          stage: ProcessingStage | null;
+          stage_done: number | null;
+          stage_total: number | null;
           error_message: string | null;
           started_at: string | null;
           completed_at: string | null;
@@ -251,8 +448,17 @@ export interface Database {
         Insert: {
           id?: string;
           document_id: string;
-          job_type: 'parse_references' | 'match_canonical' | 'verify_integrity';
-          status?: 'queued' | 'running' | 'completed' | 'failed';
+          job_type: ProcessingJobType;
+          status?: ProcessingJobStatus;
+          payload?: ProcessingJobPayload;
+          attempts?: number;
+          max_attempts?: number;
+          run_after?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          stage?: ProcessingStage | null;
+          stage_done?: number | null;
+          stage_total?: number | null;
           error_message?: string | null;
           started_at?: string | null;
           completed_at?: string | null;
@@ -261,13 +467,23 @@ export interface Database {
         Update: {
           id?: string;
           document_id?: string;
-          job_type?: 'parse_references' | 'match_canonical' | 'verify_integrity';
-          status?: 'queued' | 'running' | 'completed' | 'failed';
+          job_type?: ProcessingJobType;
+          status?: ProcessingJobStatus;
+          payload?: ProcessingJobPayload;
+          attempts?: number;
+          max_attempts?: number;
+          run_after?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          stage?: ProcessingStage | null;
+          stage_done?: number | null;
+          stage_total?: number | null;
           error_message?: string | null;
           started_at?: string | null;
           completed_at?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       user_usage: {
         Row: {
@@ -294,6 +510,46 @@ export interface Database {
           action_type?: 'upload' | 'view_report' | 'export_pdf';
           timestamp?: string;
         };
+        Relationships: [];
+      };
+      llm_output_failures: {
+        Row: {
+          id: string;
+          task: string;
+          provider: string;
+          model: string;
+          attempt: number;
+          exhausted: boolean;
+          error: string;
+          output: string | null;
+          document_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task: string;
+          provider: string;
+          model: string;
+          attempt: number;
+          exhausted?: boolean;
+          error: string;
+          output?: string | null;
+          document_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task?: string;
+          provider?: string;
+          model?: string;
+          attempt?: number;
+          exhausted?: boolean;
+          error?: string;
+          output?: string | null;
+          document_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
       };
       audit_feedback: {
         Row: {
@@ -323,20 +579,31 @@ export interface Database {
           comment?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
+      claim_processing_job: {
+        Args: { worker_id: string; lease_seconds?: number };
+        Returns: Database['public']['Tables']['processing_jobs']['Row'][];
+      };
+      publish_retraction_import: {
+        Args: { p_source: string; p_import_id: string };
+        Returns: number;
+      };
+    };
+    CompositeTypes: {
       [_ in never]: never;
     };
     Enums: {
       plan_type: 'free' | 'academic' | 'pro';
       document_status: 'uploaded' | 'processing' | 'completed' | 'failed';
-      match_status: 'pending' | 'matched' | 'not_found' | 'ambiguous' | 'error';
-      job_type: 'parse_references' | 'match_canonical' | 'verify_integrity';
-      job_status: 'queued' | 'running' | 'completed' | 'failed';
+      match_status: MatchStatus;
+      job_type: ProcessingJobType;
+      job_status: ProcessingJobStatus;
       action_type: 'upload' | 'view_report' | 'export_pdf';
       feedback_type: 'accurate' | 'inaccurate' | 'misleading' | 'missing_context';
     };
@@ -348,21 +615,178 @@ export type UserPlan = Database['public']['Tables']['user_plans']['Row'];
 export type Profile = Database['public']['Tables']['profiles']['Row'];
 export type Document = Database['public']['Tables']['documents']['Row'];
 export type DocumentReference = Database['public']['Tables']['document_references']['Row'];
+export type CitationOccurrence = Database['public']['Tables']['citation_occurrences']['Row'];
+export type CanonicalReference = Database['public']['Tables']['canonical_references']['Row'];
+export type RetractionNotice = Database['public']['Tables']['retraction_notices']['Row'];
+export type ProcessingJob = Database['public']['Tables']['processing_jobs']['Row'];
 
 // Convenience types for inserts
 export type UserPlanInsert = Database['public']['Tables']['user_plans']['Insert'];
 export type ProfileInsert = Database['public']['Tables']['profiles']['Insert'];
 export type DocumentInsert = Database['public']['Tables']['documents']['Insert'];
 export type DocumentReferenceInsert = Database['public']['Tables']['document_references']['Insert'];
+export type CitationOccurrenceInsert = Database['public']['Tables']['citation_occurrences']['Insert'];
+export type CanonicalReferenceInsert = Database['public']['Tables']['canonical_references']['Insert'];
+export type RetractionNoticeInsert = Database['public']['Tables']['retraction_notices']['Insert'];
+export type LlmOutputFailureInsert = Database['public']['Tables']['llm_output_failures']['Insert'];
 
 // Convenience types for updates
 export type UserPlanUpdate = Database['public']['Tables']['user_plans']['Update'];
 export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
 export type DocumentUpdate = Database['public']['Tables']['documents']['Update'];
 export type DocumentReferenceUpdate = Database['public']['Tables']['document_references']['Update'];
+export type CitationOccurrenceUpdate = Database['public']['Tables']['citation_occurrences']['Update'];
+export type CanonicalReferenceUpdate = Database['public']['Tables']['canonical_references']['Update'];
+export type ProcessingJobUpdate = Database['public']['Tables']['processing_jobs']['Update'];
+
+// How far a document reference got in resolving to a canonical_references row
+export type MatchStatus = 'pending' | 'matched' | 'not_found' | 'ambiguous' | 'error';
+
+// Pipeline step a queued job runs
+export type ProcessingJobType = 'parse_references' | 'match_canonical' | 'verify_integrity';
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Step within a running job (processing_jobs.stage)
+export type ProcessingStage =
+  | 'extracting' // parse_references
+  | 'storing'
+  | 'resolving' // match_canonical
+  | 'screening'
+  | 'reviewing' // verify_integrity
+  | 'classifying'
+  | 'summarizing';
+
+// Input a job needs beyond its document (processing_jobs.payload)
+export interface ProcessingJobPayload {
+  file_path?: string; // upload in the storage bucket, for parse_references
+  file_name?: string;
+  content_type?: string;
+  user_id?: string;
+  review_from?: number; // verify_integrity continuation: references before this index were reviewed
+  stance_from?: number; // and those before this index had their citations classified
+}
+
+// Kind of editorial notice attached to a published paper
+export type RetractionNoticeType = 'retraction' | 'expression_of_concern' | 'correction';
+
+// Most serious notice found for a cited work; 'none' once screened clean
+export type RetractionStatus = 'none' | RetractionNoticeType;
+
+// Notice matched to a document reference (document_references.retraction_details)
+export interface RetractionDetail {
+  notice_type: RetractionNoticeType;
+  notice_doi: string | null;
+  notice_date: string | null;
+  reason: string | null;
+  source: string;
+}
+
+// Why a citing sentence cites a work
+export type CitationStance = 'background' | 'method' | 'supporting' | 'contrasting' | 'comparison';
+
+// Citation occurrences per stance for one reference (document_references.stance_counts)
+export type StanceCounts = Partial<Record<CitationStance, number>>;
+
+// Stances across a document (citation_report.stances)
+export interface StanceSummary {
+  works: StanceCounts; // references cited at least once with the stance
+  occurrences: StanceCounts;
+  unclassified: number; // occurrences without context or a usable answer
+}
+
+// Outcome of an integrity review; only 'scored' carries a score. 'skipped':
+// nothing to review or no model configured; 'failed': the model call or its
+// answer was unusable; 'no_source': the cited paper's text was unavailable
+export type ReviewState = 'scored' | 'skipped' | 'failed' | 'no_source';
+
+// How a stored review was produced (existence_provenance, context_review_provenance,
+// ai_review_provenance). method is a prompt name from the registry, or the
+// rule-based check, which leaves the model fields null
+export interface ReviewProvenance {
+  method: string;
+  version: number;
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  generated_at: string;
+}
+
+// Cited field compared against the resolved record
+export type ExistenceField = 'doi' | 'title' | 'authors' | 'year' | 'venue';
+
+// Outcome of one comparison; 'not_cited' and 'not_in_record' leave the field out of the score
+export type ExistenceFieldStatus = 'match' | 'partial' | 'mismatch' | 'invalid' | 'not_cited' | 'not_in_record';
+
+// One line of a reference's existence check (document_references.existence_details)
+export interface ExistenceDetail {
+  field: ExistenceField;
+  status: ExistenceFieldStatus;
+  cited: string | null;
+  found: string | null; // value on the resolved record
+  note: string;
+}
+
+// Bibliography entry that was parsed but not stored (documents.skipped_references)
+export interface SkippedReference {
+  entry_id: string;
+  position: number;
+  raw_reference: string;
+  reason: 'plan_cap';
+  detail: string | null;
+}
+
+// Citations and bibliography entries that do not line up (documents.citation_report)
+export interface CitationReport {
+  unresolved_citations: UnresolvedCitation[];
+  uncited_references: UncitedReference[];
+  out_of_range_citations: OutOfRangeCitation[];
+  published_versions?: PublishedVersion[]; // filled in by the resolver; absent before it runs
+  stances?: StanceSummary; // filled in by stance classification; absent before it runs
+}
+
+// In-text citation that resolves to no bibliography entry
+export interface UnresolvedCitation {
+  citation_id: string;
+  raw_text: string;
+  occurrences: number;
+}
+
+// Bibliography entry that no in-text citation points at
+export interface UncitedReference {
+  entry_id: string;
+  position: number;
+  raw_reference: string;
+}
+
+// Numeric citation or range that points past the end of the reference list
+export interface OutOfRangeCitation {
+  raw_text: string;
+  numbers: number[]; // the numbers beyond the list
+  list_length: number;
+  occurrences: number;
+}
+
+// Cited arXiv preprint that has a peer-reviewed version of record
+export interface PublishedVersion {
+  position: number;
+  raw_reference: string;
+  arxiv_id: string;
+  published_doi: string | null;
+  journal_ref: string | null;
+}
+
+// Rectangle on a PDF page in points, origin at the top-left (citation_occurrences.bounding_boxes)
+export interface OccurrenceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 // Enhanced types for queries with joins
 export type DocumentReferenceWithFeedback = DocumentReference & {
+  canonical_reference?: CanonicalReference | null;
   feedback?: any[];
 };
 
@@ -1,38 +1,114 @@
+import { parseReference } from '@/utils/reference-parser';
+import { classifyMatch, rankCandidates, type MatchDecision } from '@/utils/resolver/scoring';
+import type { MetadataCandidate, ReferenceQuery } from '@/utils/resolver/sources';
+
 export interface ArxivResult {
   id: string;
   title: string;
   summary: string;
+  authors: string[];
+  categories: string[]; // "cs.CL", primary category first
   link?: string;
   pdfUrl?: string;
   published?: string;
+  doi?: string; // DOI of the published version, when the authors registered one
+  journalRef?: string; // "Nature 521, 436-444 (2015)", free text from the authors
+}
+
+export interface ArxivCandidate {
+  result: ArxivResult;
+  confidence: number; // 0 to 1, similarity to the citation
+}
+
+export interface ArxivLookup {
+  status: MatchDecision;
+  match: ArxivResult | null; // set only when status is 'matched'
+  confidence: number; // of the best candidate; 0 when there is none
+  candidates: ArxivCandidate[]; // best first
+}
+
+// New-style ids (1409.0473, 2101.00001v2) and old-style archive ids (hep-th/9901001, math.GT/0309136)
+const ARXIV_ID = String.raw`(\d{4}\.\d{4,5}|[a-z]+(?:-[a-z]+)*(?:\.[A-Z]{2})?\/\d{7})(v\d+)?`;
+
+// An id only counts with an arXiv marker before it: "arXiv:1409.0473", "arXiv 1409.0473",
+// "arxiv.org/abs/1409.0473", "arxiv.org/pdf/1409.0473v2.pdf" or an arXiv DOI
+const ARXIV_REFERENCE = new RegExp(
+  String.raw`(?:arxiv\s*[:.]?\s*|arxiv\.org\/(?:abs|pdf)\/|10\.48550\/arxiv\.)${ARXIV_ID}`,
+  'i'
+);
+
+const ARXIV_API = 'https://export.arxiv.org/api/query';
+const SEARCH_RESULTS = 5;
+const USER_AGENT = 'refint/1.0 (+https://github.com/ali-javed/refint-clean)';
+
+/**
+ * Find an explicit arXiv identifier in a reference, version suffix included
+ * ("1409.0473v7", "hep-th/9901001"). Null when the reference names none.
+ */
+export function extractArxivId(reference: string): string | null {
+  const match = reference.match(ARXIV_REFERENCE);
+  if (!match) return null;
+  // Archive names are lower-case, subject classes upper-case ("math.GT")
+  const id = match[1].replace(/^[a-z-]+/i, archive => archive.toLowerCase());
+  return `${id}${match[2] ?? ''}`;
+}
+
+/**
+ * Bare versionless identifier from an arXiv abstract URL:
+ * "http://arxiv.org/abs/1409.0473v7" → "1409.0473"
+ */
+export function arxivIdFromUrl(url: string): string {
+  return url.replace(/^https?:\/\/arxiv\.org\/abs\//, '').replace(/v\d+$/, '');
 }
 
 /**
- * Search arXiv for a given query string and return the first result (if any).
+ * Search arXiv for a given query string and return the results in arXiv's relevance order.
  * We use the lightweight Atom feed API: https://export.arxiv.org/api/query
  */
-export async function searchArxiv(query: string): Promise<ArxivResult | null> {
+export async function searchArxiv(query: string, maxResults = SEARCH_RESULTS): Promise<ArxivResult[]> {
   const trimmed = query.trim().slice(0, 200);
-  if (!trimmed) return null;
+  if (!trimmed) return [];
 
-  const url = `https://export.arxiv.org/api/query?search_query=all:${encodeURIComponent(
+  const url = `${ARXIV_API}?search_query=all:${encodeURIComponent(
     trimmed
-  )}&max_results=1`;
+  )}&max_results=${maxResults}`;
+
+  const xml = await fetchFeed(url);
+  return xml ? parseEntries(xml) : [];
+}
+
+/**
+ * Fetch one arXiv record by identifier. With a version suffix the record
+ * describes that version; without one, the latest.
+ */
+export async function fetchArxivById(id: string): Promise<ArxivResult | null> {
+  const xml = await fetchFeed(`${ARXIV_API}?id_list=${encodeURIComponent(id)}&max_results=1`);
+  if (!xml) return null;
+
+  const [result] = parseEntries(xml);
+  // Unknown or malformed ids come back as a single entry pointing at the API's error page
+  if (!result || /\/api\/errors/.test(result.id)) return null;
+  return result;
+}
 
+async function fetchFeed(url: string): Promise<string | null> {
   const res = await fetch(url, {
     headers: {
-      'User-Agent': 'refint/1.0 (+https://github.com/ali-javed/refint-clean)',
+      'User-Agent': USER_AGENT,
     },
   });
 
   if (!res.ok) return null;
-  const xml = await res.text();
+  return res.text();
+}
 
-  // Extract first <entry>...</entry>
-  const entryMatch = xml.match(/<entry>([\s\S]*?)<\/entry>/i);
-  if (!entryMatch) return null;
-  const entry = entryMatch[1];
+function parseEntries(xml: string): ArxivResult[] {
+  return [...xml.matchAll(/<entry>([\s\S]*?)<\/entry>/gi)]
+    .map(match => parseEntry(match[1]))
+    .filter((result): result is ArxivResult => result !== null);
+}
 
+function parseEntry(entry: string): ArxivResult | null {
   const extractTag = (tag: string) => {
     const m = entry.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i'));
     return m ? decodeHtml(stripTags(m[1]).trim()) : '';
@@ -42,13 +118,24 @@ export async function searchArxiv(query: string): Promise<ArxivResult | null> {
   const summary = extractTag('summary');
   const published = extractTag('published');
   const id = extractTag('id');
+  const doi = extractTag('arxiv:doi') || undefined;
+  const journalRef = extractTag('arxiv:journal_ref') || undefined;
+
+  const authors = [...entry.matchAll(/<author>\s*<name>([\s\S]*?)<\/name>/gi)]
+    .map(m => decodeHtml(m[1].trim()));
+  const categories = [...entry.matchAll(/<category[^>]+term="([^"]+)"/gi)].map(m => m[1]);
+  // The primary category is also given separately; make sure it leads
+  const primary = entry.match(/<arxiv:primary_category[^>]+term="([^"]+)"/i)?.[1];
+  if (primary) categories.splice(0, categories.length, primary, ...categories.filter(c => c !== primary));
 
   // Prefer explicit pdf link
   const pdfMatch = entry.match(/<link[^>]+title="pdf"[^>]+href="([^"]+)"/i);
   const pdfUrl = pdfMatch ? pdfMatch[1] : undefined;
 
   // Also capture the html link
-  const htmlMatch = entry.match(/<link[^>]+rel="alternate"[^>]+href="([^"]+)"/i);
+  // (the feed puts href before rel: <link href="..." rel="alternate" type="text/html"/>)
+  const htmlTag = entry.match(/<link[^>]+rel="alternate"[^>]*>/i);
+  const htmlMatch = htmlTag?.[0].match(/href="([^"]+)"/i);
   const link = htmlMatch ? htmlMatch[1] : undefined;
 
   if (!title && !summary) return null;
@@ -57,9 +144,13 @@ export async function searchArxiv(query: string): Promise<ArxivResult | null> {
     id,
     title,
     summary,
+    authors,
+    categories,
     link,
     pdfUrl,
     published,
+    doi,
+    journalRef,
   };
 }
 
@@ -77,7 +168,7 @@ function extractLikelyTitle(reference: string): string {
   // 2) Try string after year pattern "(2020)" or "2020."
   const yearMatch = ref.match(/\((\d{4})\)|\b(19|20)\d{2}[.,]/);
   if (yearMatch && yearMatch.index !== undefined) {
-    const after = ref.slice(yearMatch.index + yearMatch[0].length).trim();
+    const after = ref.slice(yearMatch.index + yearMatch[0].length).replace(/^[\s.,:;]+/, '');
 
     // Heuristic: cut at first period that looks like end of title
     const firstDot = after.indexOf('.');
@@ -95,14 +186,70 @@ function extractLikelyTitle(reference: string): string {
 }
 
 /**
- * Convenience helper: search arXiv using a full citation string by extracting
- * a likely title and delegating to the generic searchArxiv function.
+ * Convenience helper: look up the arXiv record for a full citation string.
+ * A citation naming its arXiv id gets exactly that record; otherwise we
+ * search on a likely title and score each result against the citation's
+ * title, authors and year. A weak or contested best hit comes back as
+ * 'ambiguous' with no match, so its abstract is never used as the cited paper's.
  */
 export async function searchArxivFromReference(
   reference: string
-): Promise<ArxivResult | null> {
-  const titleQuery = extractLikelyTitle(reference);
-  return searchArxiv(titleQuery);
+): Promise<ArxivLookup> {
+  const arxivId = extractArxivId(reference);
+  if (arxivId) {
+    // No fallback to search: the top free-text hit is not the paper the citation names
+    const record = await fetchArxivById(arxivId);
+    return record
+      ? { status: 'matched', match: record, confidence: 1, candidates: [{ result: record, confidence: 1 }] }
+      : { status: 'not_found', match: null, confidence: 0, candidates: [] };
+  }
+
+  const query = referenceQuery(reference);
+  const results = await searchArxiv(extractLikelyTitle(reference));
+  const ranked = rankCandidates(query, results.map(toCandidate));
+  const candidates = ranked.map(({ candidate, score }) => ({
+    result: results.find(r => r.id === candidate.externalId) as ArxivResult,
+    confidence: score,
+  }));
+  const status = classifyMatch(ranked);
+
+  console.log(`[arxiv] ${results.length} candidates, best ${candidates[0]?.confidence ?? 0}: ${status}`);
+
+  return {
+    status,
+    match: status === 'matched' ? candidates[0].result : null,
+    confidence: candidates[0]?.confidence ?? 0,
+    candidates,
+  };
+}
+
+function referenceQuery(reference: string): ReferenceQuery {
+  const parsed = parseReference(reference);
+  return {
+    doi: null,
+    title: parsed.title,
+    authors: parsed.authors.map(author => author.fullName),
+    year: parsed.year,
+    venue: parsed.journal,
+    rawText: reference,
+  };
+}
+
+function toCandidate(result: ArxivResult): MetadataCandidate {
+  const year = result.published ? parseInt(result.published.slice(0, 4)) : NaN;
+  return {
+    source: 'arxiv',
+    externalId: result.id,
+    doi: null,
+    pmid: null,
+    arxivId: arxivIdFromUrl(result.id),
+    publishedDoi: result.doi ?? null,
+    title: result.title,
+    authors: result.authors,
+    year: Number.isNaN(year) ? null : year,
+    journal: null,
+    abstract: result.summary,
+  };
 }
 
 function stripTags(str: string): string {
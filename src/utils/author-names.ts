@@ -0,0 +1,73 @@
+/**
+ * Author name tokenisation shared by the citation and reference parsers
+ * Unicode letters ("Müller", "Ñúñez"), apostrophes ("O'Brien"), hyphenated
+ * surnames and given names ("Lévi-Strauss", "Y.-Q."), nobiliary particles
+ * ("van der Berg", "de la Cruz") and non-English conjunctions (und, et, y).
+ */
+
+// Longest first so "van der" wins over "van"
+const PARTICLES = [
+  'van der', 'van den', 'van de', 'von der', 'von dem', 'de la', 'de las', 'de los', 'de le',
+  'van', 'von', 'de', 'del', 'della', 'delle', 'der', 'den', 'di', 'da', 'das', 'do', 'dos', 'du',
+  'des', 'le', 'la', 'ter', 'ten', 'zu', 'bin', 'ibn', 'al', 'el', 'af', 'av',
+];
+
+// One capitalised name part; an apostrophe only continues it before a capital ("O'Brien", not "Khan's")
+const NAME_PART = "\\p{Lu}(?:[\\p{L}\\p{M}]|['’](?=\\p{Lu}))+";
+
+/** Regex source for a surname, hyphenated parts included ("Smith-Jones") */
+export const SURNAME = `${NAME_PART}(?:-${NAME_PART})*`;
+
+/** Regex source for a particle before the surname; capitalised at the start of a sentence ("Van der Berg") */
+export const PARTICLE = `(?:${PARTICLES.map(p => `[${p[0]}${p[0].toUpperCase()}]${p.slice(1)}`).join('|')})\\s+`;
+
+/** Regex source for a family name with its particles: "van der Berg", "de la Cruz", "Müller" */
+export const FAMILY_NAME = `(?:${PARTICLE})?${SURNAME}`;
+
+/** Regex source for given-name initials, hyphenated ones included: "J.", "J. R.", "Y.-Q." */
+export const INITIALS = '\\p{Lu}\\.(?:\\s*-?\\s*\\p{Lu}\\.)*';
+
+/** Regex source for the conjunction joining the last two authors */
+export const AUTHOR_CONJUNCTION = '(?:&|and|und|et(?!\\s+al\\b)|y)';
+
+const PARTICLE_START = new RegExp(`^${PARTICLE}`, 'u');
+const TITLES = /\b(?:Dr|Mr|Ms|Mrs|Prof|Professor)\.\s*/gi;
+
+/**
+ * Split one person's name into given and family parts.
+ * Handles "Family, Given" and "Given [particles] Family".
+ */
+export function splitPersonName(name: string): { given: string | null; family: string } | null {
+  const cleaned = name.normalize('NFC').replace(TITLES, '').replace(/\s+/g, ' ').trim();
+  if (!cleaned) return null;
+
+  // "van der Berg, J." / "Zhang, Y.-Q." / "García Márquez, Gabriel"
+  if (cleaned.includes(',')) {
+    const [family, ...rest] = cleaned.split(',').map(p => p.trim());
+    const given = rest.join(' ').trim();
+    return { given: given || null, family };
+  }
+
+  // "J. van der Berg" / "Y.-Q. Zhang" / "Ludwig van Beethoven": the family name
+  // starts at the first particle after the given names, else it is the last word
+  const tokens = cleaned.split(' ');
+  if (tokens.length === 1) return { given: null, family: cleaned };
+
+  for (let i = 1; i < tokens.length - 1; i++) {
+    const rest = tokens.slice(i).join(' ');
+    if (PARTICLE_START.test(rest) && /^\p{Ll}/u.test(tokens[i])) {
+      return { given: tokens.slice(0, i).join(' '), family: rest };
+    }
+  }
+  return { given: tokens.slice(0, -1).join(' '), family: tokens[tokens.length - 1] };
+}
+
+/**
+ * Split an author list on commas, semicolons and conjunctions (and, &, und, et, y)
+ */
+export function splitAuthorList(text: string): string[] {
+  return text
+    .split(/\s*;\s*|\s*,?\s+(?:and|und|et(?!\s+al\b)|y)\s+|\s*,?\s*&\s*/u)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
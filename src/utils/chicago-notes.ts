@@ -0,0 +1,417 @@
+/**
+ * Chicago notes-and-bibliography parsing
+ *
+ * Notes-style documents cite through numbered footnotes or endnotes rather than
+ * in-text markers that name the work. This module:
+ * 1. Finds the note blocks (numbered lines at page bottoms or in a Notes section)
+ * 2. Matches each note to its superscript marker in the body
+ * 3. Parses full notes, short-form notes, Ibid./Id. and op. cit.
+ * 4. Links every note to a bibliography entry (synthesising one from the
+ *    first full note when the bibliography does not list the work)
+ */
+
+import type { BibliographyEntry, ParsedCitation } from '@/utils/citation-parser';
+
+export interface DocumentNote {
+  number: number;
+  text: string;
+  start: number; // offset of the note line in the scanned text
+  end: number;
+}
+
+export interface NoteMarker {
+  number: number;
+  offset: number; // offset of the marker digits in bodyText
+  rawText: string;
+}
+
+interface NoteSource {
+  kind: 'full' | 'short' | 'ibid' | 'op-cit';
+  surname: string | null;
+  authors: string[];
+  title: string | null;
+  year: number | null;
+  locator: string | null;
+  text: string;
+}
+
+const NOTE_START = /^\s*(\d{1,3})\.?\s+(\S.*)$/;
+const YEAR = /\b(1[5-9]\d{2}|20\d{2})\b/;
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'and', 'in', 'on', 'for', 'to', 'at', 'by', 'with']);
+
+/**
+ * Find sequentially numbered notes and the body markers that point at them
+ */
+export function detectNotes(bodyText: string, referencesText: string): { notes: DocumentNote[]; markers: NoteMarker[] } {
+  let notes = findNoteBlocks(bodyText, 0);
+  if (notes.length === 0) {
+    // Endnotes may sit after the "Notes" header, which the section split puts in referencesText.
+    // A numbered reference list looks the same, so require a short form, Ibid. or op. cit.
+    notes = findNoteBlocks(referencesText, bodyText.length + 1);
+    if (!notes.some(note => parseNoteSources(note.text).some(source => source.kind !== 'full'))) notes = [];
+  }
+  if (notes.length === 0) return { notes, markers: [] };
+
+  const numbers = new Set(notes.map(n => n.number));
+  const bodyRanges = notes.filter(n => n.start < bodyText.length);
+  const markers: NoteMarker[] = [];
+  let last = 0;
+
+  // Superscripts come out of the text layer glued to the preceding word or punctuation
+  const markerRegex = /(?<=[A-Za-z.,;:!?"')\]])(\d{1,3})(?=[\s.,;:)]|$)/g;
+  let match;
+  while ((match = markerRegex.exec(bodyText)) !== null) {
+    const number = parseInt(match[1]);
+    const index = match.index;
+    if (bodyRanges.some(n => index >= n.start && index < n.end)) continue;
+    // Notes are numbered in reading order; allow a small gap for markers the text layer lost
+    if (!numbers.has(number) || number <= last || number > last + 3) continue;
+    markers.push({ number, offset: index, rawText: match[1] });
+    last = number;
+  }
+
+  return { notes, markers };
+}
+
+/**
+ * Turn notes into citations linked to bibliography entries
+ */
+export function parseNotesDocument(bodyText: string, referencesText: string): {
+  inTextCitations: ParsedCitation[];
+  bibliography: BibliographyEntry[];
+  citationToBibMapping: Map<string, string>;
+} {
+  const { notes, markers } = detectNotes(bodyText, referencesText);
+
+  // Bibliography lines are whatever in the references section is not a note
+  const referencesOffset = bodyText.length + 1;
+  const noteRanges = notes.filter(n => n.start >= referencesOffset).map(n => [n.start - referencesOffset, n.end - referencesOffset]);
+  const bibliographyText = referencesText
+    .split('\n')
+    .reduce<{ lines: string[]; pos: number }>((acc, line) => {
+      const inNote = noteRanges.some(([start, end]) => acc.pos >= start && acc.pos < end);
+      if (!inNote) acc.lines.push(line);
+      acc.pos += line.length + 1;
+      return acc;
+    }, { lines: [], pos: 0 })
+    .lines.join('\n');
+
+  const bibliography = parseChicagoBibliography(bibliographyText);
+  const markerByNote = new Map(markers.map(m => [m.number, m]));
+  const inTextCitations: ParsedCitation[] = [];
+  const citationToBibMapping = new Map<string, string>();
+
+  // Each resolved source, most recent last, for Ibid. / short form / op. cit. lookups
+  const history: Array<{ source: NoteSource; entryId: string | null }> = [];
+
+  for (const note of notes) {
+    const marker = markerByNote.get(note.number);
+    const sources = parseNoteSources(note.text);
+
+    sources.forEach((source, i) => {
+      const entryId = resolveSource(source, history, bibliography, note.number);
+      history.push({ source, entryId });
+
+      const citationId = i === 0 ? `note-${note.number}` : `note-${note.number}-${i + 1}`;
+      if (entryId) citationToBibMapping.set(citationId, entryId);
+      inTextCitations.push({
+        citationId,
+        rawText: marker?.rawText ?? String(note.number),
+        type: 'note',
+        numbers: [note.number],
+        authors: source.authors.length > 0 ? source.authors : undefined,
+        year: source.year ?? undefined,
+        pages: source.locator ?? undefined,
+        offset: marker?.offset,
+      });
+    });
+  }
+
+  return { inTextCitations, bibliography, citationToBibMapping };
+}
+
+/**
+ * Resolve one cited work to a bibliography entry. Works cited only in the notes
+ * get an entry built from their first full note.
+ */
+function resolveSource(
+  source: NoteSource,
+  earlier: Array<{ source: NoteSource; entryId: string | null }>,
+  entries: BibliographyEntry[],
+  noteNumber: number
+): string | null {
+  if (source.kind === 'ibid') {
+    return earlier[earlier.length - 1]?.entryId ?? null;
+  }
+
+  if (source.kind === 'op-cit' || source.kind === 'short') {
+    const previous = [...earlier].reverse().find(h =>
+      h.source.surname && h.source.surname === source.surname &&
+      (source.kind === 'op-cit' || titlesMatch(source.title, h.source.title))
+    );
+    if (previous?.entryId) return previous.entryId;
+  }
+
+  const matches = entries.filter(entry => entryMatches(entry, source));
+  if (matches.length === 1 || (matches.length > 1 && source.title)) return matches[0].entryId;
+
+  if (source.kind !== 'full') return null;
+
+  const entry: BibliographyEntry = {
+    entryId: `note_${noteNumber}`,
+    rawText: source.text,
+    authors: source.authors,
+    title: source.title,
+    year: source.year,
+    journal: null,
+    volume: null,
+    issue: null,
+    pages: null,
+    doi: source.text.match(/10\.\d{4,9}\/[^\s,;]+/)?.[0]?.replace(/\.$/, '') ?? null,
+    url: null,
+    publisher: null,
+    confidence: 0.5,
+  };
+  entries.push(entry);
+  return entry.entryId;
+}
+
+/**
+ * Numbered note lines, following the running sequence 1, 2, 3 … so numbered
+ * lists and stray numbers do not start a note
+ */
+function findNoteBlocks(text: string, baseOffset: number): DocumentNote[] {
+  const notes: DocumentNote[] = [];
+  let expected = 1;
+  let current: DocumentNote | null = null;
+  let pos = 0;
+
+  for (const line of text.split('\n')) {
+    const lineStart = pos;
+    pos += line.length + 1;
+    const start = NOTE_START.exec(line);
+
+    if (start && parseInt(start[1]) === expected && looksLikeNote(start[2])) {
+      current = { number: expected, text: start[2].trim(), start: baseOffset + lineStart, end: baseOffset + pos };
+      notes.push(current);
+      expected++;
+      continue;
+    }
+
+    // Wrapped note lines continue until a finished sentence is followed by a capitalised line
+    const trimmed = line.trim();
+    const unfinished = current && !/[.!?]["')]?$/.test(current.text);
+    if (current && trimmed && (unfinished || /^[a-z(\d]/.test(trimmed))) {
+      current.text += ` ${trimmed}`;
+      current.end = baseOffset + pos;
+      continue;
+    }
+    current = null;
+  }
+
+  // A couple of numbered lines is more likely a list than a note apparatus
+  return notes.length >= 2 ? notes : [];
+}
+
+function looksLikeNote(text: string): boolean {
+  return /^(?:ibid|id\.|see\b|cf\.)/i.test(text) ||
+    /op\.\s*cit/i.test(text) ||
+    YEAR.test(text) ||
+    /^[A-Z][^,]{1,60},\s*\S/.test(text);
+}
+
+/**
+ * Split a note into the works it cites ("Smith, Book, 4; Jones, Article, 9.")
+ */
+function parseNoteSources(text: string): NoteSource[] {
+  const parts: string[] = [];
+  // A further sentence ("… 90. See also Lee, …") cites another work too
+  for (const sentence of text.split(/\.\s+(?=(?:see|cf\.)\s)/i)) {
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < sentence.length; i++) {
+      if (sentence[i] === '(') depth++;
+      else if (sentence[i] === ')') depth--;
+      else if (sentence[i] === ';' && depth === 0) {
+        parts.push(sentence.slice(start, i));
+        start = i + 1;
+      }
+    }
+    parts.push(sentence.slice(start));
+  }
+
+  return parts
+    .map(part => part.trim().replace(/^(?:see also|see|cf\.)\s+/i, '').replace(/\.$/, '').trim())
+    .filter(Boolean)
+    .map(parseNoteSource);
+}
+
+function parseNoteSource(text: string): NoteSource {
+  const ibid = text.match(/^(?:ibid|id)\.?(?:,\s*(.+))?$/i);
+  if (ibid) {
+    return { kind: 'ibid', surname: null, authors: [], title: null, year: null, locator: ibid[1]?.trim() ?? null, text };
+  }
+
+  const opCit = text.match(/^(.+?),\s*op\.\s*cit\.?(?:,\s*(.+))?$/i);
+  if (opCit) {
+    const authors = splitNoteAuthors(opCit[1]);
+    return { kind: 'op-cit', surname: surnameOf(authors[0]), authors, title: null, year: null, locator: opCit[2]?.trim() ?? null, text };
+  }
+
+  const firstComma = text.indexOf(',');
+  const authorText = firstComma > 0 ? text.slice(0, firstComma) : text;
+  const authors = splitNoteAuthors(authorText);
+  const rest = firstComma > 0 ? text.slice(firstComma + 1).trim() : '';
+
+  // Title: quoted article/chapter title, otherwise up to the facts of publication or locator
+  const quoted = rest.match(/^["']\s*(.+?)[,.]?\s*["']/);
+  const title = quoted
+    ? quoted[1].trim()
+    : rest.split(/\s*\(|,\s*(?=\d|[ivxl]+\b|p{1,2}\.)/)[0].trim() || null;
+
+  const locatorMatch = text.match(/(?:\)|,|:)["']?\s*((?:pp?\.\s*)?[\divxl]+(?:\s*[-–]\s*[\divxl]+)?(?:\s*,\s*[\d]+(?:\s*[-–]\s*\d+)?)*)$/i);
+  const yearMatch = text.match(YEAR);
+
+  return {
+    kind: yearMatch ? 'full' : 'short',
+    surname: surnameOf(authors[0]),
+    authors,
+    title,
+    year: yearMatch ? parseInt(yearMatch[1]) : null,
+    locator: locatorMatch ? locatorMatch[1].trim() : null,
+    text,
+  };
+}
+
+function splitNoteAuthors(text: string): string[] {
+  return text
+    .replace(/\s+et al\.?$/, '')
+    .split(/\s*,?\s+and\s+|\s*&\s*|,\s*/)
+    .map(a => a.trim())
+    .filter(Boolean);
+}
+
+function surnameOf(name: string | undefined): string | null {
+  if (!name) return null;
+  // Bibliography form "Smith, John" or note form "John Smith"
+  const surname = name.includes(',') ? name.split(',')[0] : name.split(/\s+/).pop();
+  return surname ? surname.toLowerCase() : null;
+}
+
+function titleWords(title: string | null): string[] {
+  return (title ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(w => w && !STOPWORDS.has(w));
+}
+
+// Short titles are the leading words of the full title
+function titlesMatch(short: string | null, full: string | null): boolean {
+  const shortWords = titleWords(short);
+  const fullWords = titleWords(full);
+  if (shortWords.length === 0 || fullWords.length === 0) return shortWords.length === 0;
+  return shortWords.every(word => fullWords.includes(word));
+}
+
+function entryMatches(entry: BibliographyEntry, source: NoteSource): boolean {
+  if (!source.surname) return false;
+  const surnames = entry.authors.map(a => surnameOf(a));
+  const authorMatch = surnames.includes(source.surname) || entry.rawText.toLowerCase().startsWith(source.surname);
+  if (!authorMatch) return false;
+  if (source.title) return titlesMatch(source.title, entry.title);
+  return source.year === null || source.year === entry.year;
+}
+
+/**
+ * Chicago bibliography: "Surname, Given. Title. Place: Publisher, Year."
+ * with "———." standing for the previous entry's authors
+ */
+export function parseChicagoBibliography(text: string): BibliographyEntry[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) chunks.push(current.join(' ').trim());
+    current = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+    const startsEntry = /^(?:[A-Z][\p{L}'’-]+(?:\s+[A-Z][\p{L}'’-]+)*,\s+[A-Z]|[-—]{2,}\.?)/u.test(trimmed);
+    const previousDone = current.length === 0 || /[.!?]["')]?$/.test(current[current.length - 1]);
+    if (startsEntry && previousDone) flush();
+    current.push(trimmed);
+  }
+  flush();
+
+  const entries: BibliographyEntry[] = [];
+  const ids = new Set<string>();
+  let previousAuthors: string[] = [];
+
+  for (const chunk of chunks) {
+    if (chunk.length < 15 || !YEAR.test(chunk)) continue;
+    const entry = parseChicagoEntry(chunk, previousAuthors);
+    previousAuthors = entry.authors;
+
+    // Same author and year twice → smith_2010, smith_2010b
+    let id = entry.entryId;
+    for (let suffix = 98; ids.has(id); suffix++) id = `${entry.entryId}${String.fromCharCode(suffix)}`;
+    ids.add(id);
+    entries.push({ ...entry, entryId: id });
+  }
+
+  return entries;
+}
+
+function parseChicagoEntry(text: string, previousAuthors: string[]): BibliographyEntry {
+  let rest = text;
+  let authors: string[];
+
+  const repeated = rest.match(/^[-—]{2,}\.?\s*/);
+  if (repeated) {
+    authors = previousAuthors;
+    rest = rest.slice(repeated[0].length);
+  } else {
+    // Author block ends at the first full stop that does not close an initial
+    const end = [...rest.matchAll(/\.\s+(?=["'“‘]|[A-Z0-9])/g)].find(m => !/(?:^|[\s.])[A-Z]$/.test(rest.slice(0, m.index)));
+    const authorText = end ? rest.slice(0, end.index) : rest;
+    rest = end ? rest.slice(end.index! + end[0].length) : '';
+
+    const parts = authorText.split(/,\s*(?:and\s+)?|\s+and\s+/).map(p => p.trim()).filter(Boolean);
+    // Only the first author is inverted: "Smith, John, and Jane Doe"
+    authors = parts.length >= 2 ? [`${parts[1]} ${parts[0]}`, ...parts.slice(2)] : parts;
+  }
+
+  const quoted = rest.match(/^["“'‘](.+?)[,.]?["”'’]\s*/);
+  const title = quoted ? quoted[1].trim() : rest.split(/\.\s+/)[0].trim() || null;
+  const afterTitle = quoted ? rest.slice(quoted[0].length) : rest.slice((title ?? '').length).replace(/^\.\s*/, '');
+
+  const journalMatch = quoted ? afterTitle.match(/^([^,.(]+?)\s+(\d+)(?:,\s*no\.\s*(\d+))?/) : null;
+  const yearMatch = text.match(/\((?:[A-Za-z]+\.?\s+)?(\d{4})\)/) ?? text.match(YEAR);
+  const pagesMatch = text.match(/\):\s*(\d+\s*[-–]\s*\d+|\d+)/);
+  const publisherMatch = !journalMatch ? afterTitle.match(/:\s*([^,:]+),\s*\d{4}/) : null;
+  const year = yearMatch ? parseInt(yearMatch[1]) : null;
+
+  const surname = surnameOf(authors[0]) ?? 'unknown';
+
+  return {
+    entryId: `${surname.replace(/[^\p{L}\p{N}]/gu, '')}_${year ?? 'nd'}`,
+    rawText: text,
+    authors,
+    title,
+    year,
+    journal: journalMatch ? journalMatch[1].trim() : null,
+    volume: journalMatch ? journalMatch[2] : null,
+    issue: journalMatch?.[3] ?? null,
+    pages: pagesMatch ? pagesMatch[1] : null,
+    doi: text.match(/10\.\d{4,9}\/[^\s,;]+/)?.[0]?.replace(/\.$/, '') ?? null,
+    url: text.match(/https?:\/\/\S+/)?.[0]?.replace(/\.$/, '') ?? null,
+    publisher: publisherMatch ? publisherMatch[1].trim() : null,
+    confidence: 0.7,
+  };
+}
@@ -15,12 +15,55 @@ export {
   // Document operations
   createDocument,
   updateDocumentStatus,
+  getDocumentStatus,
   getDocumentWithReferences,
   calculateDocumentIntegrityScore,
+  updateDocumentReferenceCounts,
+  updateDocumentCitationReport,
+  getDocumentCitationReport,
+  getUserPlan,
 
   // Document reference operations
   createDocumentReferences,
   updateDocumentReferenceIntegrity,
+  updateDocumentReferenceArxiv,
+  updateDocumentReferenceContextIntegrity,
   batchUpdateReferenceIntegrity,
   getDocumentReferences,
+  deleteDocumentReferences,
+  resetDocumentReferenceValidation,
+
+  // Citation occurrence operations
+  createCitationOccurrences,
+  getDocumentCitationOccurrences,
+  updateCitationOccurrenceStance,
+  updateDocumentReferenceStances,
+
+  // Canonical reference operations
+  findCanonicalReference,
+  createCanonicalReference,
+  updateCanonicalReferenceVersions,
+  linkCanonicalReference,
+  updateDocumentReferenceExistence,
+
+  // Retraction screening operations
+  replaceRetractionNotices,
+  findRetractionNotices,
+  updateDocumentReferenceRetraction,
+
+  // Processing job operations
+  createProcessingJob,
+  updateProcessingJobStatus,
+  updateProcessingJobProgress,
+  claimProcessingJob,
+  renewProcessingJobLease,
+  getProcessingJob,
+  findActiveProcessingJob,
+  findLatestProcessingJob,
+  uploadDocumentFile,
+  downloadDocumentFile,
+  removeDocumentFile,
+
+  // Model output operations
+  recordLlmOutputFailure,
 } from '@/utils/database/operations';
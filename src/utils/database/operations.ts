@@ -7,17 +7,50 @@
 
 import { getSupabaseServiceClient } from '@/utils/supabase/client';
 import type {
+  CanonicalReference,
+  CanonicalReferenceInsert,
+  CanonicalReferenceUpdate,
+  CitationOccurrence,
+  CitationOccurrenceInsert,
+  CitationOccurrenceUpdate,
+  CitationReport,
+  CitationStance,
   DocumentInsert,
+  DocumentUpdate,
   DocumentReferenceInsert,
   DocumentReferenceUpdate,
   DocumentReferenceWithFeedback,
   Document,
   DocumentReference,
+  ExistenceDetail,
+  LlmOutputFailureInsert,
+  MatchStatus,
+  ProcessingJob,
+  ProcessingJobPayload,
+  ProcessingJobStatus,
+  ProcessingStage,
+  ProcessingJobType,
+  ProcessingJobUpdate,
+  RetractionDetail,
+  RetractionNotice,
+  RetractionNoticeInsert,
+  RetractionStatus,
+  ReviewProvenance,
+  ReviewState,
+  SkippedReference,
+  StanceCounts,
+  UserPlan,
 } from '@/types/database';
 import { randomUUID } from 'crypto';
 
 // Anonymous session functions removed - using user_id only in fresh schema
 
+// Rows per insert and DOIs per `in` filter for retraction notices
+const RETRACTION_BATCH_SIZE = 500;
+
+// Storage bucket holding uploads until they are parsed (migration 012)
+const UPLOADS_BUCKET = 'uploads';
+
 /**
  * Check if document with same filename exists for user
  */
@@ -130,8 +163,9 @@ export async function createDocument(params: {
 export async function updateDocumentStatus(
   documentId: string,
   status: 'uploaded' | 'processing' | 'completed' | 'failed',
-  overallIntegrityScore?: number,
-  aiReviewReport?: string | null
+  overallIntegrityScore?: number | null,
+  aiReviewReport?: string | null,
+  aiReviewProvenance?: ReviewProvenance | null
 ) {
   const supabase = getSupabaseServiceClient();
 
@@ -145,7 +179,11 @@ export async function updateDocumentStatus(
     updateData.ai_review_report = aiReviewReport;
   }
 
-  const { data, error } = await (supabase as any)
+  if (aiReviewProvenance !== undefined) {
+    updateData.ai_review_provenance = aiReviewProvenance;
+  }
+
+  const { data, error } = await supabase
     .from('documents')
     .update(updateData)
     .eq('id', documentId)
@@ -159,6 +197,116 @@ export async function updateDocumentStatus(
   return data as Document;
 }
 
+/**
+ * Fetch the processing status of a document (null if it does not exist)
+ */
+export async function getDocumentStatus(documentId: string): Promise<Document['status'] | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('status')
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch document status: ${error.message}`);
+  }
+
+  return (data as Pick<Document, 'status'> | null)?.status ?? null;
+}
+
+/**
+ * Record how many references were parsed, stored and skipped for a document.
+ * total_references counts distinct works: stored rows not marked as duplicates.
+ */
+export async function updateDocumentReferenceCounts(
+  documentId: string,
+  counts: {
+    citationStyle?: string;
+    storedReferences: number;
+    parsedReferences: number;
+    skippedReferences: SkippedReference[];
+  }
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentUpdate = {
+    total_references: counts.storedReferences,
+    parsed_references: counts.parsedReferences,
+    skipped_references: counts.skippedReferences,
+  };
+
+  if (counts.citationStyle !== undefined) {
+    updateData.citation_style = counts.citationStyle;
+  }
+
+  const { error } = await supabase
+    .from('documents')
+    .update(updateData)
+    .eq('id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to update document reference counts: ${error.message}`);
+  }
+}
+
+/**
+ * Store the orphan/dangling citation report for a document
+ */
+export async function updateDocumentCitationReport(documentId: string, report: CitationReport) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentUpdate = { citation_report: report };
+
+  const { error } = await supabase
+    .from('documents')
+    .update(updateData)
+    .eq('id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to update document citation report: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch the citation report of a document (null for documents parsed before reports existed)
+ */
+export async function getDocumentCitationReport(documentId: string): Promise<CitationReport | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('citation_report')
+    .eq('id', documentId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch document citation report: ${error.message}`);
+  }
+
+  return (data as Pick<Document, 'citation_report'>).citation_report ?? null;
+}
+
+/**
+ * Fetch the plan for a user (null if the user has no plan row yet)
+ */
+export async function getUserPlan(userId: string) {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('user_plans')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[getUserPlan] Error:', error);
+    return null;
+  }
+
+  return data && data.length > 0 ? data[0] as UserPlan : null;
+}
+
 /**
  * Save parsed document references for a document
  */
@@ -174,6 +322,7 @@ export async function createDocumentReferences(
     contextBefore?: string;
     contextAfter?: string;
     positionInDoc?: number;
+    duplicateOfPosition?: number;
   }>
 ) {
   const supabase = getSupabaseServiceClient();
@@ -185,6 +334,7 @@ export async function createDocumentReferences(
     context_before: ref.contextBefore || null,
     context_after: ref.contextAfter || null,
     position_in_doc: ref.positionInDoc ?? null,
+    duplicate_of_position: ref.duplicateOfPosition ?? null,
     first_author: ref.firstAuthor || null,
     second_author: ref.secondAuthor || null,
     last_author: ref.lastAuthor || null,
@@ -192,7 +342,7 @@ export async function createDocumentReferences(
     publication: ref.publication || null,
   }));
 
-  const { data, error } = await (supabase as any)
+  const { data, error } = await supabase
     .from('document_references')
     .insert(referencesData)
     .select();
@@ -206,6 +356,385 @@ export async function createDocumentReferences(
   return data as DocumentReference[];
 }
 
+/**
+ * Store the located in-text citation occurrences of a document's references
+ */
+export async function createCitationOccurrences(occurrences: CitationOccurrenceInsert[]) {
+  if (occurrences.length === 0) return [];
+
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('citation_occurrences')
+    .insert(occurrences)
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to create citation occurrences: ${error.message}`);
+  }
+
+  return data as CitationOccurrence[];
+}
+
+/**
+ * Fetch the citation occurrences of a document, grouped by reference and in reading order
+ */
+export async function getDocumentCitationOccurrences(documentId: string): Promise<CitationOccurrence[]> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('citation_occurrences')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('document_reference_id', { ascending: true })
+    .order('occurrence_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch citation occurrences: ${error.message}`);
+  }
+
+  return (data ?? []) as CitationOccurrence[];
+}
+
+/**
+ * Store the classified stance of one citation occurrence
+ */
+export async function updateCitationOccurrenceStance(
+  occurrenceId: string,
+  stance: CitationStance | null,
+  rationale: string | null
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: CitationOccurrenceUpdate = {
+    stance,
+    stance_rationale: rationale,
+  };
+
+  const { error } = await supabase
+    .from('citation_occurrences')
+    .update(updateData)
+    .eq('id', occurrenceId);
+
+  if (error) {
+    throw new Error(`Failed to update citation occurrence stance: ${error.message}`);
+  }
+}
+
+/**
+ * Store how often a reference is cited with each stance
+ */
+export async function updateDocumentReferenceStances(referenceId: string, counts: StanceCounts) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentReferenceUpdate = { stance_counts: counts };
+
+  const { error } = await supabase
+    .from('document_references')
+    .update(updateData)
+    .eq('id', referenceId);
+
+  if (error) {
+    throw new Error(`Failed to update reference stance counts: ${error.message}`);
+  }
+}
+
+/**
+ * Find a canonical reference by DOI, or by its identifier in the source API
+ */
+export async function findCanonicalReference(params: {
+  doi: string | null;
+  sourceApi: string;
+  externalId: string;
+}): Promise<CanonicalReference | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const query = supabase.from('canonical_references').select('*');
+  const { data, error } = await (params.doi
+    ? query.eq('doi', params.doi)
+    : query.eq('source_api', params.sourceApi).eq('external_id', params.externalId)
+  ).limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch canonical reference: ${error.message}`);
+  }
+
+  return (data?.[0] as CanonicalReference | undefined) ?? null;
+}
+
+/**
+ * Insert a canonical reference resolved from a metadata source
+ */
+export async function createCanonicalReference(reference: CanonicalReferenceInsert) {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('canonical_references')
+    .insert(reference)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create canonical reference: ${error.message}`);
+  }
+
+  return data as CanonicalReference;
+}
+
+/**
+ * Record the preprint and published versions found for a canonical reference.
+ * Only known values are written, so one source never erases what another found.
+ */
+export async function updateCanonicalReferenceVersions(
+  canonicalReferenceId: string,
+  versions: {
+    arxivId: string | null;
+    publishedDoi: string | null;
+    journalRef: string | null;
+  }
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: CanonicalReferenceUpdate = { last_verified: new Date().toISOString() };
+  if (versions.arxivId) updateData.arxiv_id = versions.arxivId;
+  if (versions.publishedDoi) updateData.published_doi = versions.publishedDoi;
+  if (versions.journalRef) updateData.journal_ref = versions.journalRef;
+
+  const { error } = await supabase
+    .from('canonical_references')
+    .update(updateData)
+    .eq('id', canonicalReferenceId);
+
+  if (error) {
+    throw new Error(`Failed to update canonical reference versions: ${error.message}`);
+  }
+}
+
+/**
+ * Record the resolver outcome for a document reference
+ */
+export async function linkCanonicalReference(
+  referenceId: string,
+  params: {
+    canonicalReferenceId: string | null;
+    matchStatus: MatchStatus;
+    matchScore: number | null;
+  }
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentReferenceUpdate = {
+    canonical_reference_id: params.canonicalReferenceId,
+    match_status: params.matchStatus,
+    match_score: params.matchScore,
+  };
+
+  const { error } = await supabase
+    .from('document_references')
+    .update(updateData)
+    .eq('id', referenceId);
+
+  if (error) {
+    throw new Error(`Failed to link canonical reference: ${error.message}`);
+  }
+}
+
+/**
+ * Replace every retraction notice imported from a source with a fresh import.
+ * Rows are staged under an import id and published in one transaction, so a
+ * failed import leaves the previous notices in place.
+ */
+export async function replaceRetractionNotices(source: string, notices: RetractionNoticeInsert[]) {
+  const supabase = getSupabaseServiceClient();
+  const importId = randomUUID();
+
+  // The Retraction Watch export has tens of thousands of rows; stage in batches
+  for (let i = 0; i < notices.length; i += RETRACTION_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('retraction_notice_imports')
+      .insert(notices.slice(i, i + RETRACTION_BATCH_SIZE).map(notice => ({ ...notice, source, import_id: importId })));
+
+    if (error) {
+      await discardRetractionImport(importId);
+      throw new Error(`Failed to import retraction notices: ${error.message}`);
+    }
+  }
+
+  const { data, error } = await supabase.rpc('publish_retraction_import', { p_source: source, p_import_id: importId });
+
+  if (error) {
+    await discardRetractionImport(importId);
+    throw new Error(`Failed to publish retraction notices: ${error.message}`);
+  }
+
+  return data ?? notices.length;
+}
+
+// Best effort: a leftover staged import is never published and can be cleared later
+async function discardRetractionImport(importId: string) {
+  const supabase = getSupabaseServiceClient();
+
+  const { error } = await supabase
+    .from('retraction_notice_imports')
+    .delete()
+    .eq('import_id', importId);
+
+  if (error) {
+    console.warn(`[retractions] Could not discard staged import ${importId}: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch the retraction notices recorded against any of the given DOIs
+ */
+export async function findRetractionNotices(dois: string[]): Promise<RetractionNotice[]> {
+  if (dois.length === 0) return [];
+
+  const supabase = getSupabaseServiceClient();
+  const notices: RetractionNotice[] = [];
+
+  for (let i = 0; i < dois.length; i += RETRACTION_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('retraction_notices')
+      .select('*')
+      .in('doi', dois.slice(i, i + RETRACTION_BATCH_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to fetch retraction notices: ${error.message}`);
+    }
+
+    notices.push(...((data ?? []) as RetractionNotice[]));
+  }
+
+  return notices;
+}
+
+/**
+ * Record the retraction screening outcome for a document reference
+ */
+export async function updateDocumentReferenceRetraction(
+  referenceId: string,
+  status: RetractionStatus,
+  details: RetractionDetail[]
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentReferenceUpdate = {
+    retraction_status: status,
+    retraction_details: details,
+  };
+
+  const { error } = await supabase
+    .from('document_references')
+    .update(updateData)
+    .eq('id', referenceId);
+
+  if (error) {
+    throw new Error(`Failed to update reference retraction status: ${error.message}`);
+  }
+}
+
+/**
+ * Store the outcome of a reference's existence check
+ */
+export async function updateDocumentReferenceExistence(
+  referenceId: string,
+  params: {
+    score: number | null;
+    check: string;
+    details: ExistenceDetail[];
+    provenance: ReviewProvenance;
+  }
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentReferenceUpdate = {
+    existence_score: params.score,
+    existence_check: params.check,
+    existence_details: params.details,
+    existence_provenance: params.provenance,
+  };
+
+  const { error } = await supabase
+    .from('document_references')
+    .update(updateData)
+    .eq('id', referenceId);
+
+  if (error) {
+    throw new Error(`Failed to update reference existence check: ${error.message}`);
+  }
+}
+
+/**
+ * Store the context integrity review of a reference, with the integrity score and review shown for it
+ */
+export async function updateDocumentReferenceContextIntegrity(
+  referenceId: string,
+  params: {
+    state: ReviewState;
+    reason: string | null; // why there is no score
+    score: number | null;
+    review: string | null;
+    integrityScore: number | null;
+    aiReview: string | null;
+    provenance: ReviewProvenance | null; // null when no prompt was sent
+  }
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentReferenceUpdate = {
+    context_review_state: params.state,
+    context_review_reason: params.reason,
+    context_review_provenance: params.provenance,
+    context_integrity_score: params.score,
+    context_integrity_review: params.review,
+    integrity_score: params.integrityScore,
+    ai_review: params.aiReview,
+  };
+
+  const { error } = await supabase
+    .from('document_references')
+    .update(updateData)
+    .eq('id', referenceId);
+
+  if (error) {
+    throw new Error(`Failed to update reference context integrity: ${error.message}`);
+  }
+}
+
+/**
+ * Store the arXiv record a document reference names by identifier
+ */
+export async function updateDocumentReferenceArxiv(
+  referenceId: string,
+  record: {
+    arxivId: string;
+    title: string;
+    link?: string;
+    pdfUrl?: string;
+    published?: string;
+  }
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentReferenceUpdate = {
+    arxiv_id: record.arxivId,
+    arxiv_title: record.title,
+    arxiv_link: record.link ?? null,
+    arxiv_pdf_url: record.pdfUrl ?? null,
+    arxiv_published_at: record.published ?? null,
+  };
+
+  const { error } = await supabase
+    .from('document_references')
+    .update(updateData)
+    .eq('id', referenceId);
+
+  if (error) {
+    throw new Error(`Failed to update reference arXiv record: ${error.message}`);
+  }
+}
+
 /**
  * Update integrity score and explanation after AI review
  */
@@ -279,7 +808,7 @@ export async function createAuditFeedback(params: {
     user_id: params.userId || null,
   };
 
-  const { data, error } = await (supabase as any)
+  const { data, error } = await supabase
     .from('audit_feedback')
     .insert(feedbackData as any)
     .select()
@@ -292,6 +821,60 @@ export async function createAuditFeedback(params: {
   return data as any;
 }
 
+/**
+ * Delete the references of a document, and with them their citation occurrences
+ */
+export async function deleteDocumentReferences(documentId: string) {
+  const supabase = getSupabaseServiceClient();
+
+  const { error } = await supabase
+    .from('document_references')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to delete document references: ${error.message}`);
+  }
+}
+
+/**
+ * Mark every reference of a document as not yet resolved or reviewed, and its
+ * citations as not yet classified, so validation starts over
+ */
+export async function resetDocumentReferenceValidation(documentId: string) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: DocumentReferenceUpdate = {
+    match_status: 'pending',
+    context_integrity_score: null,
+    context_integrity_review: null,
+    context_review_state: null,
+    context_review_reason: null,
+    context_review_provenance: null,
+    stance_counts: {},
+  };
+
+  const { error } = await supabase
+    .from('document_references')
+    .update(updateData)
+    .eq('document_id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to reset reference validation: ${error.message}`);
+  }
+
+  const occurrenceData: CitationOccurrenceUpdate = { stance: null, stance_rationale: null };
+
+  const { error: occurrenceError } = await supabase
+    .from('citation_occurrences')
+    .update(occurrenceData)
+    .eq('document_id', documentId);
+
+  if (occurrenceError) {
+    throw new Error(`Failed to reset citation stances: ${occurrenceError.message}`);
+  }
+}
+
 /**
  * Fetch all document references and associated feedback for a document
  */
@@ -352,7 +935,7 @@ export async function calculateDocumentIntegrityScore(documentId: string) {
 
   const { data, error } = await supabase
     .from('document_references')
-    .select('context_integrity_score')
+    .select('context_integrity_score, context_review_state, duplicate_of_position')
     .eq('document_id', documentId);
 
   if (error) {
@@ -364,10 +947,12 @@ export async function calculateDocumentIntegrityScore(documentId: string) {
     return null;
   }
 
-  // Filter out null scores and calculate average
+  // Average over distinct references whose review produced a score; skipped
+  // and failed reviews say nothing about the document either way
   const scores = data
-    .map((ref: any) => ref.context_integrity_score)
-    .filter((score: number | null) => score !== null && score !== undefined);
+    .filter(ref => ref.duplicate_of_position === null && ref.context_review_state === 'scored')
+    .map(ref => ref.context_integrity_score)
+    .filter((score): score is number => score !== null);
 
   if (scores.length === 0) {
     return null;
@@ -378,20 +963,22 @@ export async function calculateDocumentIntegrityScore(documentId: string) {
 }
 
 /**
- * Create a processing job for tracking long-running operations
+ * Queue a processing job for a document
  */
 export async function createProcessingJob(
   documentId: string,
-  jobType: 'parse_references' | 'match_canonical' | 'verify_integrity'
-) {
+  jobType: ProcessingJobType,
+  payload: ProcessingJobPayload = {}
+): Promise<ProcessingJob> {
   const supabase = getSupabaseServiceClient();
 
-  const { data, error } = await (supabase as any)
+  const { data, error } = await supabase
     .from('processing_jobs')
     .insert({
       document_id: documentId,
       job_type: jobType,
       status: 'queued',
+      payload,
     } as any)
     .select()
     .single();
@@ -400,35 +987,44 @@ export async function createProcessingJob(
     throw new Error(`Failed to create processing job: ${error.message}`);
   }
 
-  return data as any;
+  return data as ProcessingJob;
 }
 
 /**
- * Update processing job status
+ * Update processing job status. Leaving 'running' releases the worker's lease;
+ * runAfter holds a re-queued job back until its retry is due.
  */
 export async function updateProcessingJobStatus(
   jobId: string,
-  status: 'queued' | 'running' | 'completed' | 'failed',
-  errorMessage?: string
-) {
+  status: ProcessingJobStatus,
+  errorMessage?: string,
+  runAfter?: Date
+): Promise<ProcessingJob> {
   const supabase = getSupabaseServiceClient();
 
-  const updates: any = {
+  const updateData: ProcessingJobUpdate = {
     status,
     error_message: errorMessage || null,
   };
 
-  if (status === 'running' && !updates.started_at) {
-    updates.started_at = new Date().toISOString();
+  if (status === 'running') {
+    updateData.started_at = new Date().toISOString();
+  } else {
+    updateData.locked_by = null;
+    updateData.locked_at = null;
   }
 
   if (status === 'completed' || status === 'failed') {
-    updates.completed_at = new Date().toISOString();
+    updateData.completed_at = new Date().toISOString();
+  }
+
+  if (runAfter) {
+    updateData.run_after = runAfter.toISOString();
   }
 
-  const { data, error } = await (supabase as any)
+  const { data, error } = await supabase
     .from('processing_jobs')
-    .update(updates as any)
+    .update(updateData)
     .eq('id', jobId)
     .select()
     .single();
@@ -437,7 +1033,177 @@ export async function updateProcessingJobStatus(
     throw new Error(`Failed to update processing job: ${error.message}`);
   }
 
-  return data as any;
+  return data as ProcessingJob;
+}
+
+/**
+ * Record the stage a running job is on and how far through it it is
+ */
+export async function updateProcessingJobProgress(
+  jobId: string,
+  progress: {
+    stage: ProcessingStage;
+    done: number | null;
+    total: number | null;
+  }
+) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: ProcessingJobUpdate = {
+    stage: progress.stage,
+    stage_done: progress.done,
+    stage_total: progress.total,
+  };
+
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update(updateData)
+    .eq('id', jobId);
+
+  if (error) {
+    throw new Error(`Failed to update processing job progress: ${error.message}`);
+  }
+}
+
+/**
+ * Claim the next due job for a worker (null when the queue is empty); see claim_processing_job
+ */
+export async function claimProcessingJob(workerId: string, leaseSeconds: number): Promise<ProcessingJob | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase.rpc('claim_processing_job', {
+    worker_id: workerId,
+    lease_seconds: leaseSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim processing job: ${error.message}`);
+  }
+
+  return ((data as ProcessingJob[] | null) ?? [])[0] ?? null;
+}
+
+/**
+ * Renew a running job's lease so no other worker takes it over
+ */
+export async function renewProcessingJobLease(jobId: string, workerId: string) {
+  const supabase = getSupabaseServiceClient();
+
+  const updateData: ProcessingJobUpdate = { locked_at: new Date().toISOString() };
+
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update(updateData)
+    .eq('id', jobId)
+    .eq('locked_by', workerId);
+
+  if (error) {
+    throw new Error(`Failed to renew processing job lease: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch a processing job (null if it does not exist)
+ */
+export async function getProcessingJob(jobId: string): Promise<ProcessingJob | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch processing job: ${error.message}`);
+  }
+
+  return (data as ProcessingJob | null) ?? null;
+}
+
+/**
+ * Fetch the newest queued or running job of a document, of one type if given (null when it has none)
+ */
+export async function findActiveProcessingJob(documentId: string, jobType?: ProcessingJobType): Promise<ProcessingJob | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const query = supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('document_id', documentId)
+    .in('status', ['queued', 'running']);
+  const { data, error } = await (jobType ? query.eq('job_type', jobType) : query)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch active processing job: ${error.message}`);
+  }
+
+  return ((data as ProcessingJob[] | null) ?? [])[0] ?? null;
+}
+
+/**
+ * Fetch the newest job of a document, whatever its status (null when it has none)
+ */
+export async function findLatestProcessingJob(documentId: string): Promise<ProcessingJob | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch latest processing job: ${error.message}`);
+  }
+
+  return ((data as ProcessingJob[] | null) ?? [])[0] ?? null;
+}
+
+/**
+ * Store an uploaded file until its parse_references job reads it
+ */
+export async function uploadDocumentFile(path: string, file: Buffer, contentType: string) {
+  const supabase = getSupabaseServiceClient();
+
+  const { error } = await supabase.storage
+    .from(UPLOADS_BUCKET)
+    .upload(path, file, { contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to store uploaded file: ${error.message}`);
+  }
+}
+
+/**
+ * Read back an uploaded file
+ */
+export async function downloadDocumentFile(path: string): Promise<Buffer> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase.storage.from(UPLOADS_BUCKET).download(path);
+
+  if (error || !data) {
+    throw new Error(`Failed to read uploaded file: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Delete an uploaded file once it has been parsed
+ */
+export async function removeDocumentFile(path: string) {
+  const supabase = getSupabaseServiceClient();
+
+  const { error } = await supabase.storage.from(UPLOADS_BUCKET).remove([path]);
+
+  if (error) {
+    throw new Error(`Failed to remove uploaded file: ${error.message}`);
+  }
 }
 
 /**
@@ -451,7 +1217,7 @@ export async function logUserAction(params: {
 }) {
   const supabase = getSupabaseServiceClient();
 
-  const { data, error } = await (supabase as any)
+  const { data, error } = await supabase
     .from('user_usage')
     .insert({
       document_id: params.documentId,
@@ -468,3 +1234,18 @@ export async function logUserAction(params: {
 
   return data as any;
 }
+
+/**
+ * Record a model answer that failed schema validation
+ */
+export async function recordLlmOutputFailure(failure: LlmOutputFailureInsert) {
+  const supabase = getSupabaseServiceClient();
+
+  const { error } = await supabase
+    .from('llm_output_failures')
+    .insert(failure);
+
+  if (error) {
+    throw new Error(`Failed to record LLM output failure: ${error.message}`);
+  }
+}
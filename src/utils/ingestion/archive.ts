@@ -0,0 +1,137 @@
+import { Gunzip, unzipSync, strFromU8 } from 'fflate';
+
+export type ArchiveFiles = Record<string, Uint8Array>;
+
+// A source bundle is a few hundred files and tens of MB; anything past these
+// is rejected before it is expanded into memory
+const MAX_ARCHIVE_ENTRIES = 2000;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Read a .zip, .tar or .tar.gz upload into a path → bytes map.
+ * The container is recognised by its magic bytes, not the file name.
+ * Throws when the archive holds more than MAX_ARCHIVE_ENTRIES files or
+ * expands to more than MAX_ARCHIVE_BYTES.
+ */
+export function readArchive(buffer: Buffer): ArchiveFiles {
+  const bytes = new Uint8Array(buffer);
+
+  try {
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+      return normalizePaths(unzipWithinLimits(bytes));
+    }
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      return normalizePaths(readTar(gunzip(bytes)));
+    }
+    if (strFromU8(bytes.subarray(257, 262)) === 'ustar') {
+      return normalizePaths(readTar(bytes));
+    }
+  } catch (err) {
+    throw new Error(`Archive could not be read: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+
+  throw new Error('Unsupported archive type (expected .zip, .tar or .tar.gz)');
+}
+
+/**
+ * Unzip the entries accept keeps (all by default), throwing before anything is
+ * inflated when the zip holds more than MAX_ARCHIVE_ENTRIES entries or the kept
+ * ones declare more than MAX_ARCHIVE_BYTES. Entry sizes come from the central
+ * directory and each entry is inflated into a buffer of its declared size, so a
+ * lying header cannot expand past the cap.
+ */
+export function unzipWithinLimits(bytes: Uint8Array, accept: (name: string) => boolean = () => true): ArchiveFiles {
+  let entries = 0;
+  let total = 0;
+  return unzipSync(bytes, {
+    filter: ({ name, originalSize }) => {
+      entries += 1;
+      const kept = accept(name);
+      if (kept) total += originalSize;
+      checkLimits(entries, total);
+      return kept;
+    },
+  });
+}
+
+// Streamed so a gzip bomb is stopped at the cap instead of filling memory
+function gunzip(bytes: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const stream = new Gunzip(chunk => {
+    total += chunk.length;
+    checkLimits(0, total);
+    chunks.push(chunk);
+  });
+  stream.push(bytes, true);
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function checkLimits(entries: number, bytes: number) {
+  if (entries > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`archive has more than ${MAX_ARCHIVE_ENTRIES} files`);
+  }
+  if (bytes > MAX_ARCHIVE_BYTES) {
+    throw new Error(`archive expands to more than ${MAX_ARCHIVE_BYTES / (1024 * 1024)} MB`);
+  }
+}
+
+/**
+ * Minimal tar reader: regular files, GNU long names and pax path overrides
+ */
+function readTar(bytes: Uint8Array): ArchiveFiles {
+  const files: ArchiveFiles = {};
+  let offset = 0;
+  let longName: string | null = null;
+  let entries = 0;
+  let total = 0;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+
+    // Two zero blocks mark the end of the archive
+    if (header.every(b => b === 0)) break;
+
+    const field = (start: number, length: number) =>
+      strFromU8(header.subarray(start, start + length)).replace(/\0[\s\S]*$/, '');
+
+    const size = parseInt(field(124, 12).trim() || '0', 8);
+    const type = field(156, 1) || '0';
+    const prefix = field(345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+    const data = bytes.subarray(offset + 512, offset + 512 + size);
+
+    longName = null;
+    if (type === 'L') {
+      longName = strFromU8(data).replace(/\0[\s\S]*$/, '');
+    } else if (type === 'x') {
+      const path = strFromU8(data).match(/\d+ path=([^\n]+)\n/);
+      if (path) longName = path[1];
+    } else if (type === '0' || type === '7') {
+      entries += 1;
+      total += data.length;
+      checkLimits(entries, total);
+      files[name] = data;
+    }
+
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return files;
+}
+
+function normalizePaths(files: ArchiveFiles): ArchiveFiles {
+  const normalized: ArchiveFiles = {};
+  for (const [path, data] of Object.entries(files)) {
+    if (path.endsWith('/') || path.startsWith('__MACOSX/')) continue;
+    normalized[path.replace(/^\.\//, '')] = data;
+  }
+  return normalized;
+}
@@ -0,0 +1,65 @@
+/**
+ * Citation report
+ * Cross-checks in-text citations against the bibliography: citations that
+ * resolve to nothing, entries that are never cited, and numeric citations
+ * that point past the end of the reference list.
+ */
+
+import type { ParsedDocument } from '@/utils/citation-parser';
+import type { CitationReport, OutOfRangeCitation, UnresolvedCitation } from '@/types/database';
+
+/**
+ * Build the orphan/dangling citation report for a parsed document
+ */
+export function buildCitationReport(parsedDoc: ParsedDocument): CitationReport {
+  const { inTextCitations, bibliography, citationToBibMapping } = parsedDoc;
+
+  // Numbered lists can be checked for ranges past the end; author-year keys cannot
+  const numberedIds = bibliography.map(entry => entry.entryId).filter(id => /^\d+$/.test(id));
+  const listLength = numberedIds.length > 0 ? Math.max(...numberedIds.map(id => parseInt(id))) : null;
+  const entryIds = new Set(bibliography.map(entry => entry.entryId));
+
+  const cited = new Set(citationToBibMapping.values());
+  const unresolved = new Map<string, UnresolvedCitation>();
+  const outOfRange = new Map<string, OutOfRangeCitation>();
+
+  for (const citation of inTextCitations) {
+    // The mapping keeps one entry per citation, so "[2, 4]" marks the rest through its numbers
+    for (const num of citation.type === 'numeric' ? citation.numbers ?? [] : []) {
+      if (entryIds.has(String(num))) cited.add(String(num));
+    }
+
+    const beyond = listLength !== null && citation.type === 'numeric'
+      ? (citation.numbers ?? []).filter(num => num > listLength)
+      : [];
+
+    if (listLength !== null && beyond.length > 0) {
+      const existing = outOfRange.get(citation.rawText);
+      if (existing) existing.occurrences++;
+      else outOfRange.set(citation.rawText, { raw_text: citation.rawText, numbers: beyond, list_length: listLength, occurrences: 1 });
+      continue;
+    }
+
+    if (!citationToBibMapping.has(citation.citationId)) {
+      const existing = unresolved.get(citation.citationId);
+      if (existing) existing.occurrences++;
+      else unresolved.set(citation.citationId, { citation_id: citation.citationId, raw_text: citation.rawText, occurrences: 1 });
+    }
+  }
+
+  const report: CitationReport = {
+    unresolved_citations: [...unresolved.values()],
+    uncited_references: bibliography
+      .map((entry, position) => ({ entry_id: entry.entryId, position, raw_reference: entry.rawText }))
+      .filter(entry => !cited.has(entry.entry_id)),
+    out_of_range_citations: [...outOfRange.values()],
+  };
+
+  console.log(
+    `[citation-report] ${report.unresolved_citations.length} unresolved citations, ` +
+    `${report.uncited_references.length} uncited references, ` +
+    `${report.out_of_range_citations.length} out-of-range citations`
+  );
+
+  return report;
+}
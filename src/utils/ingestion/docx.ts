@@ -0,0 +1,445 @@
+/**
+ * DOCX Manuscript Ingestion
+ * Reads the OOXML body, footnotes and endnotes of a Word document and
+ * Word's native citation fields (built-in CITATION sources, Zotero and
+ * Mendeley CSL fields) so they can be fed into parseAcademicDocument.
+ */
+
+import { strFromU8 } from 'fflate';
+import {
+  parseAcademicDocument,
+  type BibliographyEntry,
+  type ParsedCitation,
+  type ParsedDocument,
+} from '@/utils/citation-parser';
+import { decodeXmlEntities, findElements, firstText, getAttribute, textContent } from '@/utils/ingestion/xml';
+import { formatEntryText } from '@/utils/ingestion/entries';
+import { unzipWithinLimits } from '@/utils/ingestion/archive';
+
+export interface DocxCitationField {
+  keys: string[]; // source tags (Word) or CSL item ids (Zotero/Mendeley)
+  resultText: string; // rendered citation as it appears in the body, e.g. "(Smith, 2020)"
+}
+
+export interface DocxExtraction {
+  text: string;
+  citationFields: DocxCitationField[];
+  sources: BibliographyEntry[]; // bibliography carried by the citation fields
+}
+
+interface DocxNote {
+  id: string;
+  text: string;
+}
+
+interface ParagraphState {
+  fieldStack: Array<{ instruction: string; result: string; inResult: boolean }>;
+  fields: Array<{ instruction: string; result: string }>;
+}
+
+// Subset of a CSL-JSON item as embedded by Zotero and Mendeley
+interface CslItem {
+  id?: string | number;
+  title?: string;
+  author?: Array<{ family?: string; given?: string; literal?: string }>;
+  issued?: { 'date-parts'?: Array<Array<string | number>> };
+  'container-title'?: string;
+  volume?: string | number;
+  issue?: string | number;
+  page?: string;
+  DOI?: string;
+  URL?: string;
+  publisher?: string;
+}
+
+// The only parts read: body, notes and the customXml items holding Word's sources
+const DOCX_PARTS = /^(?:word\/(?:document|footnotes|endnotes)\.xml|customXml\/item\d+\.xml)$/;
+
+/**
+ * Unzip a .docx and flatten it into parser-ready text plus citation fields
+ */
+export function extractDocx(buffer: Buffer): DocxExtraction {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipWithinLimits(new Uint8Array(buffer), name => DOCX_PARTS.test(name));
+  } catch (err) {
+    // Over the archive limits, or not a zip at all
+    const detail = err instanceof Error && err.message.startsWith('archive ') ? err.message : 'is it a .docx file?';
+    throw new Error(`Word document could not be opened (${detail})`);
+  }
+
+  const readPart = (name: string) => (files[name] ? strFromU8(files[name]) : null);
+
+  const documentXml = readPart('word/document.xml');
+  if (!documentXml) {
+    throw new Error('Word document has no body (word/document.xml missing)');
+  }
+
+  const footnotes = parseNotes(readPart('word/footnotes.xml'), 'w:footnote');
+  const endnotes = parseNotes(readPart('word/endnotes.xml'), 'w:endnote');
+
+  const state: ParagraphState = { fieldStack: [], fields: [] };
+  const footnoteNumbers = new Map<string, number>();
+  const endnoteNumbers = new Map<string, number>();
+
+  const bodyMatch = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/);
+  const paragraphs = findElements(bodyMatch ? bodyMatch[1] : documentXml, 'w:p');
+
+  const lines = paragraphs.map(p => renderParagraph(p.inner, state, (kind, id) => {
+    // Word numbers notes in order of first reference
+    const numbers = kind === 'footnote' ? footnoteNumbers : endnoteNumbers;
+    if (!numbers.has(id)) numbers.set(id, numbers.size + 1);
+    return numbers.get(id)!;
+  }));
+
+  // Notes go before the bibliography heading so that "References" still splits
+  // body from bibliography, while note-only manuscripts split on "Notes"
+  const noteLines = [
+    ...renderNoteList(footnotes, footnoteNumbers),
+    ...renderNoteList(endnotes, endnoteNumbers),
+  ];
+  const headingIndex = lines.findIndex(line =>
+    /^\s*(?:References|Bibliography|Works Cited|Literature Cited)\s*$/i.test(line)
+  );
+  if (noteLines.length > 0) {
+    const insertAt = headingIndex === -1 ? lines.length : headingIndex;
+    lines.splice(insertAt, 0, 'Notes', ...noteLines);
+  }
+
+  const sources = new Map<string, BibliographyEntry>();
+  for (const entry of parseWordSources(files)) {
+    sources.set(entry.entryId, entry);
+  }
+
+  const citationFields: DocxCitationField[] = [];
+  for (const field of state.fields) {
+    const parsed = parseCitationField(field.instruction, field.result, sources);
+    if (parsed) citationFields.push(parsed);
+  }
+
+  return {
+    // Blank line between paragraphs keeps one bibliography entry per paragraph
+    text: lines.filter(line => line.trim()).join('\n\n'),
+    citationFields,
+    sources: [...sources.values()],
+  };
+}
+
+/**
+ * Parse a .docx into the same ParsedDocument shape as PDF ingestion.
+ * When the manuscript carries native citation fields, those provide exact
+ * citation-to-entry links instead of regex guesses.
+ */
+export function parseDocxDocument(buffer: Buffer): ParsedDocument {
+  const extraction = extractDocx(buffer);
+
+  if (!extraction.text.trim()) {
+    throw new Error('Word document text is empty');
+  }
+
+  const parsedDoc = parseAcademicDocument(extraction.text);
+
+  if (extraction.sources.length === 0 || extraction.citationFields.length === 0) {
+    return parsedDoc;
+  }
+
+  return applyCitationFields(parsedDoc, extraction);
+}
+
+function applyCitationFields(parsedDoc: ParsedDocument, extraction: DocxExtraction): ParsedDocument {
+  const normalizeTitle = (title: string | null) =>
+    (title || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+  const sourceKeys = new Map<string, string>();
+  for (const source of extraction.sources) {
+    const title = normalizeTitle(source.title);
+    if (title && !sourceKeys.has(title)) sourceKeys.set(title, source.entryId);
+  }
+
+  // The field source a text-parsed entry describes, if any
+  const describedBy = (entry: BibliographyEntry): string | null => {
+    const title = normalizeTitle(entry.title);
+    if (title && sourceKeys.has(title)) return sourceKeys.get(title)!;
+    const raw = normalizeTitle(entry.rawText);
+    for (const [sourceTitle, key] of sourceKeys) {
+      if (raw.includes(sourceTitle)) return key;
+    }
+    return null;
+  };
+
+  // Keep text-parsed entries that no field source describes, so nothing is dropped
+  const replacedEntries = new Map<string, string>();
+  const uncitedEntries = parsedDoc.bibliography.filter(entry => {
+    const key = describedBy(entry);
+    if (key) replacedEntries.set(entry.entryId, key);
+    return key === null;
+  });
+
+  // Citations with where they start in the body, to keep document order
+  const located: Array<{ citation: ParsedCitation; at: number }> = [];
+  const citationToBibMapping = new Map<string, string>();
+
+  const sourceIds = new Set(extraction.sources.map(source => source.entryId));
+  const fieldSpans: Array<{ start: number; end: number }> = [];
+  let cursor = 0;
+  for (const field of extraction.citationFields) {
+    // Fields come in document order, so each is looked for after the previous one
+    const found = field.resultText ? parsedDoc.bodyText.indexOf(field.resultText, cursor) : -1;
+    if (found !== -1) {
+      fieldSpans.push({ start: found, end: found + field.resultText.length });
+      cursor = found + field.resultText.length;
+    }
+
+    for (const key of field.keys) {
+      located.push({
+        citation: {
+          citationId: key,
+          rawText: field.resultText,
+          type: 'author-date',
+          ...(found !== -1 ? { offset: found } : {}),
+        },
+        at: found === -1 ? cursor : found,
+      });
+      // A field pointing at a source the document does not carry stays unresolved
+      if (sourceIds.has(key)) citationToBibMapping.set(key, key);
+    }
+  }
+
+  // Manuscripts often mix field citations with typed ones; keep each typed
+  // citation that no field covers, linked to the field source that replaced
+  // its entry where there is one
+  cursor = 0;
+  for (const citation of parsedDoc.inTextCitations) {
+    const start = citation.offset ?? parsedDoc.bodyText.indexOf(citation.rawText, cursor);
+    if (start === -1) continue;
+    const end = start + citation.rawText.length;
+    cursor = end;
+
+    if (fieldSpans.some(span => start < span.end && span.start < end)) continue;
+
+    const entryId = parsedDoc.citationToBibMapping.get(citation.citationId);
+    located.push({ citation, at: start });
+    if (entryId) {
+      citationToBibMapping.set(citation.citationId, replacedEntries.get(entryId) ?? entryId);
+    }
+  }
+
+  return {
+    ...parsedDoc,
+    inTextCitations: located.sort((a, b) => a.at - b.at).map(({ citation }) => citation),
+    bibliography: [...extraction.sources, ...uncitedEntries],
+    citationToBibMapping,
+  };
+}
+
+function parseNotes(xml: string | null, tag: 'w:footnote' | 'w:endnote'): DocxNote[] {
+  if (!xml) return [];
+
+  const notes: DocxNote[] = [];
+  for (const element of findElements(xml, tag)) {
+    // Separator and continuation notes are layout artifacts, not content
+    if (getAttribute(element.open, 'w:type')) continue;
+
+    const id = getAttribute(element.open, 'w:id');
+    if (!id) continue;
+
+    const state: ParagraphState = { fieldStack: [], fields: [] };
+    const text = findElements(element.inner, 'w:p')
+      .map(p => renderParagraph(p.inner, state, () => null))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (text) notes.push({ id, text });
+  }
+
+  return notes;
+}
+
+function renderNoteList(notes: DocxNote[], numbers: Map<string, number>): string[] {
+  return notes
+    .filter(note => numbers.has(note.id))
+    .sort((a, b) => numbers.get(a.id)! - numbers.get(b.id)!)
+    .map(note => `${numbers.get(note.id)}. ${note.text}`);
+}
+
+/**
+ * Render one <w:p> to text, collecting field codes and note references on the way
+ */
+function renderParagraph(
+  xml: string,
+  state: ParagraphState,
+  noteNumber: (kind: 'footnote' | 'endnote', id: string) => number | null
+): string {
+  let text = '';
+  // Paragraph properties hold tab stop definitions that look like <w:tab/>
+  xml = xml.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/g, '');
+  const tokenRegex = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:instrText(?:\s[^>]*)?>([\s\S]*?)<\/w:instrText>|<w:fldChar\s[^>]*\/>|<w:fldSimple\s([^>]*?)(?:\/>|>([\s\S]*?)<\/w:fldSimple>)|<w:(tab|br|cr)\b[^>]*\/>|<w:(footnote|endnote)Reference\s[^>]*\/>/g;
+
+  const append = (value: string) => {
+    text += value;
+    const open = state.fieldStack[state.fieldStack.length - 1];
+    if (open?.inResult) open.result += value;
+  };
+
+  let match;
+  while ((match = tokenRegex.exec(xml)) !== null) {
+    const token = match[0];
+
+    if (match[1] !== undefined) {
+      append(decodeXmlEntities(match[1]));
+    } else if (match[2] !== undefined) {
+      const open = state.fieldStack[state.fieldStack.length - 1];
+      if (open && !open.inResult) open.instruction += decodeXmlEntities(match[2]);
+    } else if (token.startsWith('<w:fldChar')) {
+      const type = getAttribute(token, 'w:fldCharType');
+      if (type === 'begin') {
+        state.fieldStack.push({ instruction: '', result: '', inResult: false });
+      } else if (type === 'separate') {
+        const open = state.fieldStack[state.fieldStack.length - 1];
+        if (open) open.inResult = true;
+      } else if (type === 'end') {
+        const closed = state.fieldStack.pop();
+        if (closed) state.fields.push({ instruction: closed.instruction, result: closed.result });
+      }
+    } else if (match[3] !== undefined) {
+      const instruction = getAttribute(`<x ${match[3]}>`, 'w:instr') || '';
+      const result = textContent(match[4] || '');
+      state.fields.push({ instruction, result });
+      append(result);
+    } else if (match[5]) {
+      append(match[5] === 'tab' ? '\t' : ' ');
+    } else if (match[6]) {
+      const kind = match[6] as 'footnote' | 'endnote';
+      const id = getAttribute(token, 'w:id');
+      if (id) {
+        const number = noteNumber(kind, id);
+        // Rendered like a superscript note marker in extracted PDF text
+        if (number !== null) append(String(number));
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Turn a field instruction into citation keys.
+ * Supports Word's `CITATION Tag \l 1033 \m Tag2` and CSL JSON fields
+ * written by Zotero (`ADDIN ZOTERO_ITEM CSL_CITATION {...}`) and Mendeley
+ * (`ADDIN CSL_CITATION {...}`).
+ */
+function parseCitationField(
+  instruction: string,
+  result: string,
+  sources: Map<string, BibliographyEntry>
+): DocxCitationField | null {
+  const instr = instruction.trim();
+  const resultText = result.replace(/\s+/g, ' ').trim();
+
+  const wordMatch = instr.match(/^CITATION\s+(\S+)(.*)$/);
+  if (wordMatch) {
+    const keys = [wordMatch[1]];
+    const merged = wordMatch[2].matchAll(/\\m\s+(\S+)/g);
+    for (const m of merged) keys.push(m[1]);
+    return { keys, resultText };
+  }
+
+  const cslMatch = instr.match(/^ADDIN\s+(?:ZOTERO_ITEM\s+)?CSL_CITATION\s+(\{[\s\S]*\})/);
+  if (cslMatch) {
+    try {
+      const payload = JSON.parse(cslMatch[1]);
+      const keys: string[] = [];
+      for (const item of payload.citationItems ?? []) {
+        const data: CslItem | undefined = item.itemData;
+        const key = String(data?.id ?? item.id ?? item.uris?.[0] ?? '');
+        if (!key) continue;
+        keys.push(key);
+        // Without itemData the field names a source the document does not carry
+        if (data && !sources.has(key)) sources.set(key, cslItemToEntry(key, data));
+      }
+      return keys.length > 0 ? { keys, resultText } : null;
+    } catch (err) {
+      console.warn('[docx] Could not parse CSL citation field:', err);
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read Word's bibliography sources (customXml part with <b:Sources>)
+ */
+function parseWordSources(files: Record<string, Uint8Array>): BibliographyEntry[] {
+  const entries: BibliographyEntry[] = [];
+
+  for (const [name, data] of Object.entries(files)) {
+    if (!/^customXml\/item\d+\.xml$/.test(name)) continue;
+    const xml = strFromU8(data);
+    if (!xml.includes('<b:Sources')) continue;
+
+    for (const source of findElements(xml, 'b:Source')) {
+      const key = firstText(source.inner, 'b:Tag');
+      if (!key) continue;
+
+      const authors = findElements(source.inner, 'b:Person').map(person => {
+        const first = firstText(person.inner, 'b:First');
+        const middle = firstText(person.inner, 'b:Middle');
+        const last = firstText(person.inner, 'b:Last') || '';
+        return [first, middle, last].filter(Boolean).join(' ');
+      }).filter(Boolean);
+
+      const title = firstText(source.inner, 'b:Title');
+      const yearText = firstText(source.inner, 'b:Year');
+      const journal = firstText(source.inner, 'b:JournalName')
+        || firstText(source.inner, 'b:ConferenceName')
+        || firstText(source.inner, 'b:BookTitle');
+
+      const entry: BibliographyEntry = {
+        entryId: key,
+        rawText: '',
+        authors,
+        title,
+        year: yearText && /^\d{4}/.test(yearText) ? parseInt(yearText) : null,
+        journal,
+        volume: firstText(source.inner, 'b:Volume'),
+        issue: firstText(source.inner, 'b:Issue'),
+        pages: firstText(source.inner, 'b:Pages'),
+        doi: firstText(source.inner, 'b:DOI'),
+        url: firstText(source.inner, 'b:URL'),
+        publisher: firstText(source.inner, 'b:Publisher'),
+        confidence: 1,
+      };
+      entry.rawText = formatEntryText(entry);
+      entries.push(entry);
+    }
+  }
+
+  return entries;
+}
+
+function cslItemToEntry(key: string, data: CslItem): BibliographyEntry {
+  const authors = (data.author ?? [])
+    .map(a => a.literal || [a.given, a.family].filter(Boolean).join(' '))
+    .filter(Boolean);
+  const year = data.issued?.['date-parts']?.[0]?.[0];
+
+  const entry: BibliographyEntry = {
+    entryId: key,
+    rawText: '',
+    authors,
+    title: data.title ?? null,
+    year: year ? parseInt(String(year)) : null,
+    journal: data['container-title'] ?? null,
+    volume: data.volume != null ? String(data.volume) : null,
+    issue: data.issue != null ? String(data.issue) : null,
+    pages: data.page ?? null,
+    doi: data.DOI ?? null,
+    url: data.URL ?? null,
+    publisher: data.publisher ?? null,
+    confidence: 1,
+  };
+  entry.rawText = formatEntryText(entry);
+  return entry;
+}
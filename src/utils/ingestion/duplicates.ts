@@ -0,0 +1,127 @@
+/**
+ * Duplicate bibliography entries
+ * Finds entries that describe the same work despite different formatting,
+ * a preprint and its published version, or typos in the title. Entries are
+ * linked by DOI, arXiv identifier, or a near-identical title with a matching
+ * first author or year.
+ */
+
+import type { BibliographyEntry } from '@/utils/citation-parser';
+import { splitPersonName } from '@/utils/author-names';
+import { normalizeTitle, similarityRatio } from '@/utils/text-similarity';
+
+export type DuplicateReason = 'doi' | 'arxiv' | 'title';
+
+export interface DuplicateGroup {
+  canonical: number; // bibliography position of the first entry of the group
+  duplicates: number[]; // later positions describing the same work
+  reason: DuplicateReason; // strongest link found in the group
+}
+
+const REASON_RANK: Record<DuplicateReason, number> = { doi: 3, arxiv: 2, title: 1 };
+
+// Titles this similar (1 - edit distance / length) are the same title with typos
+const TITLE_SIMILARITY = 0.9;
+// Shorter titles ("Introduction", "Editorial") are too generic to match on
+const MIN_TITLE_LENGTH = 15;
+
+interface EntryKeys {
+  doi: string | null;
+  arxiv: string | null;
+  title: string | null;
+  titleTokens: Set<string>;
+  surname: string | null;
+  year: number | null;
+}
+
+/**
+ * Group bibliography entries that describe the same work
+ */
+export function findDuplicateGroups(bibliography: BibliographyEntry[]): DuplicateGroup[] {
+  const keys = bibliography.map(entryKeys);
+  const parent = bibliography.map((_, i) => i);
+  const reasons = new Map<number, DuplicateReason>();
+
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    // The earliest position stays canonical
+    const [root, child] = rootA < rootB ? [rootA, rootB] : [rootB, rootA];
+    parent[child] = root;
+    const strongest = [reasons.get(root), reasons.get(child), reason]
+      .filter((r): r is DuplicateReason => r !== undefined)
+      .sort((x, y) => REASON_RANK[y] - REASON_RANK[x])[0];
+    reasons.set(root, strongest);
+  };
+
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      const reason = sameWork(keys[i], keys[j]);
+      if (reason) union(i, j, reason);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  parent.forEach((_, i) => {
+    const root = find(i);
+    if (root !== i) groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  const result = [...groups.entries()].map(([canonical, duplicates]) => ({
+    canonical,
+    duplicates,
+    reason: reasons.get(canonical) ?? 'title',
+  }));
+
+  if (result.length > 0) {
+    console.log(`[duplicates] ${result.length} groups covering ${result.reduce((n, g) => n + g.duplicates.length, 0)} duplicate entries`);
+  }
+
+  return result;
+}
+
+function sameWork(a: EntryKeys, b: EntryKeys): DuplicateReason | null {
+  if (a.doi && b.doi) return a.doi === b.doi ? 'doi' : null;
+  if (a.arxiv && a.arxiv === b.arxiv) return 'arxiv';
+  if (!a.title || !b.title) return null;
+
+  // A preprint and its published version share authors but may differ in year
+  const sameAuthor = a.surname !== null && a.surname === b.surname;
+  const sameYear = a.year !== null && a.year === b.year;
+  if (!sameAuthor && !sameYear) return null;
+
+  if (a.title === b.title) return 'title';
+
+  // Cheap token overlap first; edit distance only for plausible pairs
+  const shared = [...a.titleTokens].filter(token => b.titleTokens.has(token)).length;
+  const union = a.titleTokens.size + b.titleTokens.size - shared;
+  if (union === 0 || shared / union < 0.5) return null;
+
+  return similarityRatio(a.title, b.title) >= TITLE_SIMILARITY ? 'title' : null;
+}
+
+function entryKeys(entry: BibliographyEntry): EntryKeys {
+  const title = entry.title ? normalizeTitle(entry.title) : null;
+  const rawDoi = (entry.doi ?? entry.rawText.match(/10\.\d{4,9}\/[^\s,;]+/)?.[0] ?? null)
+    ?.toLowerCase()
+    .replace(/^https?:\/\/(?:dx\.)?doi\.org\//, '')
+    .replace(/[.)\]]+$/, '') ?? null;
+  // arXiv's own DOIs (10.48550/arXiv.2101.00001) identify the preprint, not the published paper
+  const arxivDoi = rawDoi?.match(/^10\.48550\/arxiv\.(.+)$/)?.[1] ?? null;
+  const doi = arxivDoi ? null : rawDoi;
+  const arxiv = arxivDoi
+    ?? `${entry.url ?? ''} ${entry.rawText}`.match(/arxiv(?:\.org\/(?:abs|pdf)\/|:\s*)(\d{4}\.\d{4,5}|[a-z-]+\/\d{7})/i)?.[1]
+    ?? null;
+  const family = entry.authors[0] ? splitPersonName(entry.authors[0])?.family ?? null : null;
+
+  return {
+    doi,
+    arxiv,
+    title: title && title.length >= MIN_TITLE_LENGTH ? title : null,
+    titleTokens: new Set(title ? title.split(' ') : []),
+    surname: family ? normalizeTitle(family).split(' ').pop() ?? null : null,
+    year: entry.year,
+  };
+}
@@ -0,0 +1,79 @@
+import type { BibliographyEntry, CitationStyle, ParsedDocument, ParsedCitation } from '@/utils/citation-parser';
+import type { XmlCitationMark } from '@/utils/ingestion/xml';
+
+/**
+ * Render a structured entry as a readable reference string for raw_citation_text.
+ * Used by the ingestion paths that get fields rather than a formatted reference.
+ */
+export function formatEntryText(entry: BibliographyEntry): string {
+  const head = [entry.authors.join(', '), entry.year ? `(${entry.year})` : null]
+    .filter(Boolean)
+    .join(' ');
+  const parts = [
+    head,
+    entry.title,
+    entry.journal,
+    [entry.volume, entry.issue ? `(${entry.issue})` : null].filter(Boolean).join(''),
+    entry.pages,
+    entry.doi ? `doi:${entry.doi}` : entry.url,
+  ];
+  return parts.filter(part => part && part.trim()).join('. ').replace(/\.\./g, '.');
+}
+
+/**
+ * Assemble a ParsedDocument from citation elements that already point at
+ * bibliography ids (JATS xref, TEI ref). Linking is by id, so nothing is guessed;
+ * the style label is only inferred from how the citations are rendered.
+ */
+export function buildLinkedDocument(
+  bodyText: string,
+  referencesText: string,
+  marks: XmlCitationMark[],
+  bibliography: BibliographyEntry[]
+): ParsedDocument {
+  const order = new Map(bibliography.map((entry, i) => [entry.entryId, i]));
+  const inTextCitations: ParsedCitation[] = [];
+  const citationToBibMapping = new Map<string, string>();
+
+  marks.forEach((mark, i) => {
+    const ids = [...mark.ids];
+
+    // "[2]–[5]" is tagged as two citations; fill in the entries between them
+    const next = marks[i + 1];
+    if (next && ids.length === 1 && next.ids.length === 1) {
+      const between = bodyText.slice(mark.offset + mark.text.length, next.offset);
+      const from = order.get(ids[0]);
+      const to = order.get(next.ids[0]);
+      if (/^\s*[–—-]\s*$/.test(between) && from !== undefined && to !== undefined && to > from + 1) {
+        ids.push(...bibliography.slice(from + 1, to).map(entry => entry.entryId));
+      }
+    }
+
+    const numeric = /^[\[(]?\d/.test(mark.text);
+    for (const id of ids.length > 0 ? ids : [mark.text]) {
+      if (order.has(id)) citationToBibMapping.set(id, id);
+      inTextCitations.push({
+        citationId: id,
+        rawText: mark.text,
+        type: numeric ? 'numeric' : 'author-date',
+        numbers: numeric ? (mark.text.match(/\d+/g) ?? []).map(Number) : undefined,
+        offset: mark.offset,
+      });
+    }
+  });
+
+  const numericCount = inTextCitations.filter(c => c.type === 'numeric').length;
+  const style: CitationStyle = inTextCitations.length === 0
+    ? 'Unknown'
+    : numericCount > inTextCitations.length / 2 ? 'Vancouver' : 'Harvard';
+
+  return {
+    style,
+    styleConfidence: inTextCitations.length === 0 ? 0 : 0.7,
+    bodyText,
+    referencesText,
+    inTextCitations,
+    bibliography,
+    citationToBibMapping,
+  };
+}
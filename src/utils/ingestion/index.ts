@@ -0,0 +1,83 @@
+/**
+ * Document ingestion entry point
+ * Every upload format ends up as a ParsedDocument, so extraction, capping and
+ * storage downstream are the same regardless of what the user uploaded.
+ */
+
+import { parseAcademicDocument, type ParsedDocument } from '@/utils/citation-parser';
+import { extractPdfLayout, type PdfLayout } from '@/utils/ingestion/pdf';
+import { reconstructLayout } from '@/utils/ingestion/layout';
+import { parseDocxDocument } from '@/utils/ingestion/docx';
+import { parseLatexBundle } from '@/utils/ingestion/latex';
+import { parseJatsDocument } from '@/utils/ingestion/jats';
+import { parseTeiDocument } from '@/utils/ingestion/tei';
+
+export type UploadFormat = 'pdf' | 'docx' | 'latex' | 'xml';
+
+export const SUPPORTED_UPLOAD_DESCRIPTION =
+  'a PDF, a Word document (.docx), a LaTeX project archive (.zip, .tar, .tar.gz) or JATS/TEI XML';
+
+export interface IngestedDocument {
+  parsedDoc: ParsedDocument;
+  layout: PdfLayout | null; // PDF text layer positions, for page/box citation locations
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const ARCHIVE_MIMES = ['application/zip', 'application/x-zip-compressed', 'application/gzip', 'application/x-gzip', 'application/x-tar'];
+const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz', '.tar'];
+
+/**
+ * Work out the upload format from MIME type and file extension
+ */
+export function detectUploadFormat(fileName: string, mimeType: string): UploadFormat | null {
+  const name = fileName.toLowerCase();
+
+  if (mimeType.includes('pdf') || name.endsWith('.pdf')) {
+    return 'pdf';
+  }
+  if (mimeType === DOCX_MIME || name.endsWith('.docx')) {
+    return 'docx';
+  }
+  if (mimeType.endsWith('/xml') || name.endsWith('.xml') || name.endsWith('.nxml')) {
+    return 'xml';
+  }
+  if (ARCHIVE_MIMES.includes(mimeType) || ARCHIVE_EXTENSIONS.some(ext => name.endsWith(ext))) {
+    return 'latex';
+  }
+
+  return null;
+}
+
+/**
+ * Extract and parse an uploaded manuscript
+ */
+export async function parseUploadedDocument(buffer: Buffer, format: UploadFormat): Promise<IngestedDocument> {
+  switch (format) {
+    case 'pdf': {
+      const layout = reconstructLayout(await extractPdfLayout(buffer));
+      return { parsedDoc: parseAcademicDocument(layout.text), layout };
+    }
+    case 'docx':
+      return { parsedDoc: parseDocxDocument(buffer), layout: null };
+    case 'latex':
+      return { parsedDoc: parseLatexBundle(buffer), layout: null };
+    case 'xml':
+      return { parsedDoc: parseScholarlyXml(buffer.toString('utf8')), layout: null };
+  }
+}
+
+/**
+ * JATS and GROBID TEI share an extension, so dispatch on the root element
+ */
+function parseScholarlyXml(xml: string): ParsedDocument {
+  const root = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '').match(/<([A-Za-z][\w:.-]*)/)?.[1];
+
+  if (root === 'TEI' || root === 'tei:TEI') {
+    return parseTeiDocument(xml);
+  }
+  if (root === 'article') {
+    return parseJatsDocument(xml);
+  }
+
+  throw new Error(`Unrecognised XML document (root <${root ?? 'none'}>); expected a JATS article or GROBID TEI`);
+}
@@ -0,0 +1,107 @@
+/**
+ * JATS XML Ingestion
+ * Maps a JATS article (<ref-list> entries and <xref ref-type="bibr"> citations)
+ * straight into a ParsedDocument, keeping the publisher's own linking.
+ */
+
+import type { BibliographyEntry, ParsedDocument } from '@/utils/citation-parser';
+import { findElements, firstText, getAttribute, renderBodyText, textContent } from '@/utils/ingestion/xml';
+import { buildLinkedDocument, formatEntryText } from '@/utils/ingestion/entries';
+
+const BLOCK_TAGS = ['p', 'title', 'sec', 'list-item', 'caption', 'fn', 'abstract', 'body', 'disp-quote'];
+
+/**
+ * Parse a JATS article into a ParsedDocument
+ */
+export function parseJatsDocument(xml: string): ParsedDocument {
+  const [body] = findElements(xml, 'body');
+  if (!body) {
+    throw new Error('JATS article has no <body>');
+  }
+  const [abstract] = findElements(xml, 'abstract');
+
+  const { text, citations } = renderBodyText(
+    `${abstract ? `<abstract>${abstract.inner}</abstract>` : ''}<body>${body.inner}</body>`,
+    BLOCK_TAGS,
+    (openTag, name) => {
+      if (name !== 'xref' || getAttribute(openTag, 'ref-type') !== 'bibr') return null;
+      return (getAttribute(openTag, 'rid') ?? '').split(/\s+/).filter(Boolean);
+    }
+  );
+
+  const refList = findElements(xml, 'ref-list').map(list => list.inner).join('\n');
+  const bibliography = findElements(refList, 'ref')
+    .map(ref => parseJatsRef(ref.open, ref.inner))
+    .filter((entry): entry is BibliographyEntry => entry !== null);
+
+  console.log(`[jats-ingest] ${bibliography.length} references, ${citations.length} citations`);
+
+  return buildLinkedDocument(text, textContent(refList), citations, bibliography);
+}
+
+function parseJatsRef(open: string, inner: string): BibliographyEntry | null {
+  const id = getAttribute(open, 'id');
+  if (!id) return null;
+
+  const [citation] = [
+    ...findElements(inner, 'element-citation'),
+    ...findElements(inner, 'mixed-citation'),
+    ...findElements(inner, 'citation'),
+    ...findElements(inner, 'nlm-citation'),
+  ];
+  const content = citation?.inner ?? inner;
+  const publicationType = citation ? getAttribute(citation.open, 'publication-type') : null;
+
+  // Authors: person-group[@person-group-type=author] > name | string-name | collab
+  const groups = findElements(content, 'person-group');
+  const authorGroup = groups.find(g => (getAttribute(g.open, 'person-group-type') ?? 'author') === 'author');
+  const authorXml = authorGroup?.inner ?? (groups.length === 0 ? content : '');
+  const authors = [
+    ...findElements(authorXml, 'name').map(n => ({ index: n.index, name: jatsName(n.inner) })),
+    ...findElements(authorXml, 'string-name').map(n => ({
+      index: n.index,
+      name: findElements(n.inner, 'surname').length > 0 ? jatsName(n.inner) : textContent(n.inner),
+    })),
+    ...findElements(authorXml, 'collab').map(n => ({ index: n.index, name: textContent(n.inner) })),
+  ]
+    .sort((a, b) => a.index - b.index)
+    .map(a => a.name)
+    .filter(Boolean);
+
+  const articleTitle = firstText(content, 'article-title') ?? firstText(content, 'chapter-title');
+  const source = firstText(content, 'source');
+  const isBook = publicationType === 'book' && !articleTitle;
+
+  const year = firstText(content, 'year')?.match(/\d{4}/);
+  const fpage = firstText(content, 'fpage');
+  const lpage = firstText(content, 'lpage');
+  const doi = findElements(content, 'pub-id').find(p => getAttribute(p.open, 'pub-id-type') === 'doi');
+  const link = findElements(content, 'ext-link')[0] ?? findElements(content, 'uri')[0];
+
+  const entry: BibliographyEntry = {
+    entryId: id,
+    rawText: '',
+    authors,
+    title: isBook ? source : articleTitle,
+    year: year ? parseInt(year[0]) : null,
+    journal: isBook ? null : source,
+    volume: firstText(content, 'volume'),
+    issue: firstText(content, 'issue'),
+    pages: fpage ? (lpage ? `${fpage}–${lpage}` : fpage) : firstText(content, 'elocation-id'),
+    doi: doi ? textContent(doi.inner) : null,
+    url: link ? getAttribute(link.open, 'xlink:href') ?? textContent(link.inner) : null,
+    publisher: firstText(content, 'publisher-name'),
+    confidence: 1,
+  };
+
+  // mixed-citation carries the publisher's formatted reference; keep it verbatim
+  const mixed = findElements(inner, 'mixed-citation')[0];
+  entry.rawText = mixed ? textContent(mixed.inner) : formatEntryText(entry);
+  return entry;
+}
+
+function jatsName(xml: string): string {
+  return [firstText(xml, 'given-names'), firstText(xml, 'surname'), firstText(xml, 'suffix')]
+    .filter(Boolean)
+    .join(' ');
+}
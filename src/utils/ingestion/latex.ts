@@ -0,0 +1,529 @@
+/**
+ * LaTeX Project Ingestion
+ * Reads a LaTeX source bundle (.zip / .tar.gz), follows \input/\include from
+ * the main file and resolves \cite-family keys against the project's .bib
+ * files, so citations link to bibliography entries by exact key instead of
+ * by matching rendered PDF text.
+ */
+
+import path from 'path';
+import { strFromU8 } from 'fflate';
+import type { BibliographyEntry, ParsedCitation, ParsedDocument } from '@/utils/citation-parser';
+import { readArchive } from '@/utils/ingestion/archive';
+import { formatEntryText } from '@/utils/ingestion/entries';
+
+export interface BibtexEntry {
+  type: string; // article, inproceedings, misc, ...
+  key: string;
+  fields: Record<string, string>; // lower-case field name → raw value (braces kept)
+}
+
+interface LatexCite {
+  command: string;
+  keys: string[];
+  locator: string | null; // postnote, e.g. "p. 5" in \citep[p. 5]{key}
+}
+
+// natbib, biblatex and plain LaTeX citation commands
+const CITE_REGEX =
+  /\\(cite|citep|citet|citealp|citealt|citeauthor|citeyear|citeyearpar|autocite|parencite|textcite|footcite|smartcite|supercite|nocite)\*?\s*((?:\[[^\]]*\]\s*){0,2})\{([^}]*)\}/g;
+
+const INPUT_REGEX = /\\(?:input|include|subfile)\s*\{([^}]+)\}/g;
+
+const MONTHS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+};
+
+// Accent commands → Unicode combining marks
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304',
+  '.': '\u0307', u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327', k: '\u0328', r: '\u030A',
+};
+
+const SPECIAL_LETTERS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', aa: 'å', AA: 'Å', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', l: 'ł', L: 'Ł', i: 'ı',
+};
+
+/**
+ * Parse a LaTeX source bundle into a ParsedDocument
+ */
+export function parseLatexBundle(buffer: Buffer): ParsedDocument {
+  const files = readArchive(buffer);
+  const texPaths = Object.keys(files).filter(p => p.toLowerCase().endsWith('.tex'));
+  if (texPaths.length === 0) {
+    throw new Error('No .tex files found in the archive');
+  }
+
+  const source = readMainSource(files, texPaths);
+  const body = extractDocumentBody(source);
+
+  // Bibliography sources: \bibliography{a,b} / \addbibresource{x.bib}, else every .bib in the bundle
+  const bibEntries = new Map<string, BibtexEntry>();
+  const bibSources: string[] = [];
+  for (const bibPath of findBibFiles(files, source)) {
+    const bibSource = strFromU8(files[bibPath]);
+    bibSources.push(bibSource);
+    for (const entry of parseBibtex(bibSource)) {
+      if (!bibEntries.has(entry.key)) bibEntries.set(entry.key, entry);
+    }
+  }
+  const inlineItems = parseThebibliography(body);
+
+  // Swap citation commands for placeholders so they survive markup stripping
+  const cites: LatexCite[] = [];
+  const nocite: string[] = [];
+  const marked = body
+    .replace(/\\begin\{thebibliography\}[\s\S]*?\\end\{thebibliography\}/g, '')
+    .replace(CITE_REGEX, (_m, command: string, optional: string, keyList: string) => {
+      const keys = keyList.split(',').map(k => k.trim()).filter(Boolean);
+      if (command === 'nocite') {
+        nocite.push(...keys);
+        return '';
+      }
+      const args = [...optional.matchAll(/\[([^\]]*)\]/g)].map(a => latexToText(a[1]).trim());
+      const locator = args.length > 0 ? args[args.length - 1] || null : null;
+      cites.push({ command, keys, locator });
+      return `\u0001${cites.length - 1}\u0002`;
+    });
+
+  const entryFor = (key: string): BibliographyEntry | null => {
+    const bib = bibEntries.get(key);
+    if (bib) return bibtexToEntry(bib);
+    return inlineItems.get(key) ?? null;
+  };
+
+  // Render each citation from its bibliography entry and record its exact offset
+  const plain = latexToText(marked).trimStart();
+  const inTextCitations: ParsedCitation[] = [];
+  const citationToBibMapping = new Map<string, string>();
+  const citedOrder: string[] = [];
+  const entries = new Map<string, BibliographyEntry | null>();
+
+  let bodyText = '';
+  let last = 0;
+  for (const match of plain.matchAll(/\u0001(\d+)\u0002/g)) {
+    bodyText += plain.slice(last, match.index);
+    last = match.index + match[0].length;
+
+    const cite = cites[parseInt(match[1])];
+    for (const key of cite.keys) {
+      if (!entries.has(key)) entries.set(key, entryFor(key));
+    }
+    const rendered = renderCitation(cite, cite.keys.map(k => ({
+      key: k,
+      entry: entries.get(k) ?? null,
+      // "and others" in the .bib means the author list is truncated
+      truncated: /\sand\s+others\s*$/i.test(bibEntries.get(k)?.fields.author ?? ''),
+    })));
+    const offset = bodyText.length;
+    bodyText += rendered;
+
+    for (const key of cite.keys) {
+      const entry = entries.get(key);
+      if (!citedOrder.includes(key)) citedOrder.push(key);
+      if (entry) citationToBibMapping.set(key, key);
+      inTextCitations.push({
+        citationId: key,
+        rawText: rendered,
+        type: 'author-date',
+        authors: entry?.authors,
+        year: entry?.year ?? undefined,
+        pages: cite.locator ?? undefined,
+        offset,
+      });
+    }
+  }
+  bodyText += plain.slice(last);
+
+  // Bibliography in order of first citation, then \nocite entries
+  const bibKeys = [...citedOrder];
+  const extraKeys = nocite.includes('*')
+    ? [...bibEntries.keys(), ...inlineItems.keys()]
+    : nocite;
+  for (const key of extraKeys) {
+    if (!bibKeys.includes(key)) bibKeys.push(key);
+  }
+
+  const bibliography: BibliographyEntry[] = [];
+  for (const key of bibKeys) {
+    const entry = entries.has(key) ? entries.get(key) : entryFor(key);
+    if (entry) bibliography.push(entry);
+  }
+
+  const missing = citedOrder.filter(k => !citationToBibMapping.has(k));
+  console.log(`[latex-ingest] ${cites.length} citation commands, ${bibliography.length} entries, ${missing.length} keys not found in .bib`);
+
+  return {
+    style: 'BibTeX',
+    styleConfidence: 1,
+    bodyText: bodyText.trimEnd(),
+    referencesText: bibSources.join('\n\n'),
+    inTextCitations,
+    bibliography,
+    citationToBibMapping,
+  };
+}
+
+/**
+ * Parse BibTeX source into entries, expanding @string macros and # concatenation
+ */
+export function parseBibtex(source: string): BibtexEntry[] {
+  const entries: BibtexEntry[] = [];
+  const macros: Record<string, string> = {};
+  let pos = 0;
+
+  while ((pos = source.indexOf('@', pos)) !== -1) {
+    const header = /^@\s*([a-zA-Z]+)\s*([{(])/.exec(source.slice(pos));
+    if (!header) {
+      pos++;
+      continue;
+    }
+
+    const type = header[1].toLowerCase();
+    const close = header[2] === '{' ? '}' : ')';
+    let i = pos + header[0].length;
+
+    if (type === 'comment' || type === 'preamble') {
+      pos = skipBalanced(source, i - 1);
+      continue;
+    }
+
+    const readValue = (): string => {
+      const parts: string[] = [];
+      while (i < source.length) {
+        i = skipSpace(source, i);
+        const ch = source[i];
+        if (ch === '{') {
+          const end = skipBalanced(source, i);
+          parts.push(source.slice(i + 1, end - 1));
+          i = end;
+        } else if (ch === '"') {
+          let depth = 0;
+          let j = i + 1;
+          while (j < source.length && !(source[j] === '"' && depth === 0)) {
+            if (source[j] === '{') depth++;
+            if (source[j] === '}') depth--;
+            j++;
+          }
+          parts.push(source.slice(i + 1, j));
+          i = j + 1;
+        } else {
+          const word = /^[^\s,#{}()"]+/.exec(source.slice(i))?.[0] ?? '';
+          const lower = word.toLowerCase();
+          parts.push(macros[lower] ?? MONTHS[lower] ?? word);
+          i += Math.max(word.length, 1);
+        }
+        i = skipSpace(source, i);
+        if (source[i] !== '#') break;
+        i++;
+      }
+      return parts.join('');
+    };
+
+    const readFields = (): Record<string, string> => {
+      const fields: Record<string, string> = {};
+      while (i < source.length) {
+        i = skipSpace(source, i);
+        if (source[i] === ',') {
+          i++;
+          continue;
+        }
+        if (source[i] === close || source[i] === undefined) {
+          i++;
+          break;
+        }
+        const name = /^([^\s=,{}]+)\s*=/.exec(source.slice(i));
+        if (!name) {
+          // Malformed field: skip to the next comma or the end of the entry
+          while (i < source.length && source[i] !== ',' && source[i] !== close) i++;
+          continue;
+        }
+        i += name[0].length;
+        fields[name[1].toLowerCase()] = readValue();
+      }
+      return fields;
+    };
+
+    if (type === 'string') {
+      Object.assign(macros, Object.fromEntries(
+        Object.entries(readFields()).map(([k, v]) => [k.toLowerCase(), v])
+      ));
+    } else {
+      const key = /^\s*([^\s,]+)\s*,/.exec(source.slice(i));
+      if (key) {
+        i += key[0].length;
+        entries.push({ type, key: key[1], fields: readFields() });
+      } else {
+        i = skipBalanced(source, pos + header[0].length - 1);
+      }
+    }
+    pos = i;
+  }
+
+  return entries;
+}
+
+/**
+ * Map a BibTeX entry onto the shared BibliographyEntry shape
+ */
+export function bibtexToEntry(bib: BibtexEntry): BibliographyEntry {
+  const f = bib.fields;
+  const field = (...names: string[]): string | null => {
+    for (const name of names) {
+      if (f[name]) return cleanBibValue(f[name]);
+    }
+    return null;
+  };
+
+  const yearText = field('year') ?? field('date');
+  const yearMatch = yearText?.match(/\d{4}/);
+
+  let url = field('url');
+  const eprint = field('eprint');
+  if (!url && eprint && /arxiv/i.test(field('archiveprefix', 'eprinttype') ?? '')) {
+    url = `https://arxiv.org/abs/${eprint}`;
+  }
+
+  const entry: BibliographyEntry = {
+    entryId: bib.key,
+    rawText: '',
+    authors: splitBibNames(f.author ?? f.editor ?? ''),
+    title: field('title'),
+    year: yearMatch ? parseInt(yearMatch[0]) : null,
+    journal: field('journal', 'journaltitle', 'booktitle'),
+    volume: field('volume'),
+    issue: field('number', 'issue'),
+    pages: field('pages')?.replace(/\s*-+\s*/g, '–') ?? null,
+    doi: field('doi')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '') ?? null,
+    url,
+    publisher: field('publisher', 'institution', 'school', 'organization'),
+    confidence: 1,
+  };
+  entry.rawText = formatEntryText(entry);
+  return entry;
+}
+
+/**
+ * Decode LaTeX accents and special letters into Unicode
+ */
+export function decodeLatex(text: string): string {
+  return text
+    .replace(/\{?\\([uvHckr])\{\\?([a-zA-Z])\}\}?/g, (_m, accent: string, letter: string) => letter + ACCENTS[accent])
+    .replace(/\{?\\(['`^"~=.])\s*\{?\\?([a-zA-Z])\}?\}?/g, (_m, accent: string, letter: string) => letter + ACCENTS[accent])
+    .replace(/\{?\\(ss|aa|AA|ae|AE|oe|OE|o|O|l|L|i)(?![a-zA-Z])\s*\}?/g, (_m, name: string) => SPECIAL_LETTERS[name])
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .normalize('NFC');
+}
+
+function cleanBibValue(value: string): string {
+  return decodeLatex(value)
+    .replace(/\\[a-zA-Z]+\*?\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split a BibTeX name list on top-level "and" and normalise "Last, First" to "First Last"
+ */
+function splitBibNames(value: string): string[] {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    else if (value[i] === '}') depth--;
+    else if (depth === 0 && /^\sand\s/i.test(value.slice(i, i + 5))) {
+      names.push(value.slice(start, i));
+      start = i + 5;
+      i += 4;
+    }
+  }
+  names.push(value.slice(start));
+
+  return names
+    .map(name => {
+      const parts = name.split(/,(?![^{]*\})/).map(p => cleanBibValue(p));
+      // Last, First | Last, Jr, First
+      if (parts.length === 3) return `${parts[2]} ${parts[0]} ${parts[1]}`.trim();
+      if (parts.length === 2) return `${parts[1]} ${parts[0]}`.trim();
+      return parts[0];
+    })
+    .filter(name => name && name.toLowerCase() !== 'others');
+}
+
+function lastName(fullName: string): string {
+  const words = fullName.split(' ');
+  return words[words.length - 1];
+}
+
+/**
+ * Render a citation the way natbib's author-year styles would print it
+ */
+function renderCitation(
+  cite: LatexCite,
+  cited: Array<{ key: string; entry: BibliographyEntry | null; truncated: boolean }>
+): string {
+  const parts = cited.map(({ key, entry, truncated }) => {
+    if (!entry || entry.authors.length === 0) return { names: key, year: entry?.year ?? null };
+    const names = entry.authors.length === 1 && !truncated
+      ? lastName(entry.authors[0])
+      : entry.authors.length === 2 && !truncated
+        ? `${lastName(entry.authors[0])} and ${lastName(entry.authors[1])}`
+        : `${lastName(entry.authors[0])} et al.`;
+    return { names, year: entry.year };
+  });
+  const locator = cite.locator ? `, ${cite.locator}` : '';
+
+  if (cite.command === 'citet' || cite.command === 'textcite') {
+    return parts.map(p => (p.year ? `${p.names} (${p.year})` : p.names)).join(', ') + (locator ? ` (${cite.locator})` : '');
+  }
+  if (cite.command === 'citeauthor') {
+    return parts.map(p => p.names).join(', ');
+  }
+  if (cite.command === 'citeyear') {
+    return parts.map(p => p.year ?? '').join(', ');
+  }
+  const inner = parts.map(p => (p.year ? `${p.names}, ${p.year}` : p.names)).join('; ') + locator;
+  return cite.command === 'citealp' || cite.command === 'citealt' ? inner : `(${inner})`;
+}
+
+/**
+ * Pick the main .tex file and inline everything it \input's or \include's
+ */
+function readMainSource(files: Record<string, Uint8Array>, texPaths: string[]): string {
+  const sources = new Map(texPaths.map(p => [p, stripComments(strFromU8(files[p]))]));
+
+  const candidates = texPaths
+    .filter(p => /\\documentclass/.test(sources.get(p)!))
+    .sort((a, b) => {
+      const docA = /\\begin\{document\}/.test(sources.get(a)!) ? 0 : 1;
+      const docB = /\\begin\{document\}/.test(sources.get(b)!) ? 0 : 1;
+      return docA - docB || a.split('/').length - b.split('/').length || a.localeCompare(b);
+    });
+
+  if (candidates.length === 0) {
+    // No preamble anywhere: treat the files as one document in path order
+    return [...texPaths].sort().map(p => sources.get(p)!).join('\n\n');
+  }
+
+  const main = candidates[0];
+  const root = path.posix.dirname(main);
+  const seen = new Set<string>([main]);
+
+  const expand = (text: string, depth: number): string =>
+    text.replace(INPUT_REGEX, (_match, name: string) => {
+      const target = resolveFile(sources, root, name.trim(), '.tex');
+      if (!target || seen.has(target) || depth > 20) return '';
+      seen.add(target);
+      return `\n${expand(sources.get(target)!, depth + 1)}\n`;
+    });
+
+  return expand(sources.get(main)!, 0);
+}
+
+function findBibFiles(files: Record<string, Uint8Array>, source: string): string[] {
+  const allBib = Object.keys(files).filter(p => p.toLowerCase().endsWith('.bib'));
+  const names = [
+    ...[...source.matchAll(/\\bibliography\s*\{([^}]+)\}/g)].flatMap(m => m[1].split(',')),
+    ...[...source.matchAll(/\\addbibresource\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}/g)].map(m => m[1]),
+  ].map(n => n.trim()).filter(Boolean);
+
+  const bibSet = new Map(allBib.map(p => [p, p]));
+  const referenced = names
+    .map(name => resolveFile(bibSet, '', name, '.bib') ?? allBib.find(p => path.posix.basename(p) === path.posix.basename(name.endsWith('.bib') ? name : `${name}.bib`)))
+    .filter((p): p is string => !!p);
+
+  return referenced.length > 0 ? [...new Set(referenced)] : allBib;
+}
+
+function resolveFile(available: Map<string, unknown>, root: string, name: string, ext: string): string | null {
+  const withExt = path.posix.extname(name) ? name : `${name}${ext}`;
+  for (const candidate of [path.posix.join(root, withExt), path.posix.normalize(withExt)]) {
+    if (available.has(candidate)) return candidate;
+  }
+  return null;
+}
+
+function stripComments(source: string): string {
+  return source.replace(/\r\n?/g, '\n').replace(/(^|[^\\])%.*$/gm, '$1');
+}
+
+function extractDocumentBody(source: string): string {
+  const begin = source.indexOf('\\begin{document}');
+  const end = source.indexOf('\\end{document}');
+  if (begin === -1) return source;
+  return source.slice(begin + '\\begin{document}'.length, end === -1 ? undefined : end);
+}
+
+/**
+ * Entries from an inline thebibliography environment (used when a key has no .bib entry)
+ */
+function parseThebibliography(body: string): Map<string, BibliographyEntry> {
+  const items = new Map<string, BibliographyEntry>();
+  const env = body.match(/\\begin\{thebibliography\}(?:\{[^}]*\})?([\s\S]*?)\\end\{thebibliography\}/);
+  if (!env) return items;
+
+  for (const item of env[1].split(/\\bibitem/).slice(1)) {
+    const head = /^\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}/.exec(item);
+    if (!head) continue;
+    const rawText = latexToText(item.slice(head[0].length)).replace(/\s+/g, ' ').trim();
+    const year = rawText.match(/\b(19|20)\d{2}\b/);
+    items.set(head[1].trim(), {
+      entryId: head[1].trim(),
+      rawText,
+      authors: [],
+      title: null,
+      year: year ? parseInt(year[0]) : null,
+      journal: null,
+      volume: null,
+      issue: null,
+      pages: null,
+      doi: rawText.match(/10\.\d{4,9}\/[^\s,;]+/)?.[0] ?? null,
+      url: null,
+      publisher: null,
+      confidence: 0.6,
+    });
+  }
+  return items;
+}
+
+/**
+ * Strip LaTeX markup down to readable text, keeping paragraph breaks
+ */
+function latexToText(source: string): string {
+  return decodeLatex(source)
+    .replace(/\\(?:label|ref|eqref|cref|Cref|autoref|pageref|bibliographystyle|bibliography|addbibresource|printbibliography|usepackage|includegraphics|vspace|hspace|maketitle|newpage|clearpage)\*?\s*(?:\[[^\]]*\])?\s*(?:\{[^}]*\})?/g, '')
+    .replace(/\\(?:begin|end)\s*\{[^}]*\}(?:\[[^\]]*\])?/g, '\n\n')
+    .replace(/\\(?:sub)*(?:section|paragraph|chapter)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g, '\n\n$1\n\n')
+    .replace(/\\item\s*(?:\[[^\]]*\])?/g, '\n\n')
+    .replace(/\\\\/g, '\n')
+    .replace(/\\[a-zA-Z]+\*?\s*(?:\[[^\]]*\])?/g, '')
+    .replace(/[{}$]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/``|''/g, '"')
+    .replace(/[ \t]*\n[ \t]*\n\s*/g, '\u0000')
+    .replace(/\s+/g, ' ')
+    .replace(/\u0000/g, '\n\n');
+}
+
+function skipSpace(source: string, i: number): number {
+  while (i < source.length && /\s/.test(source[i])) i++;
+  return i;
+}
+
+// Index just past the group opened at `start` ({ or ()
+function skipBalanced(source: string, start: number): number {
+  const open = source[start];
+  const close = open === '(' ? ')' : '}';
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === open) depth++;
+    else if (source[i] === close && --depth === 0) return i + 1;
+  }
+  return source.length;
+}
@@ -0,0 +1,228 @@
+/**
+ * PDF layout reconstruction
+ * Rebuilds reading-order text from the positioned PDF text layer before it is
+ * parsed: lines are ordered column by column, words hyphenated across a line
+ * break are rejoined, and running headers, footers and page numbers dropped.
+ * The result is a new PdfLayout, so citation offsets still map to page boxes.
+ */
+
+import type { PdfLayout, PdfPage, PdfTextSpan } from '@/utils/ingestion/pdf';
+
+type Column = 'full' | 'left' | 'right';
+
+// A run of spans on one line, split from its neighbours by a column gutter
+interface Fragment {
+  spans: PdfTextSpan[];
+  text: string;
+  x: number;
+  y: number;
+  right: number;
+  bottom: number;
+  height: number;
+  column: Column;
+}
+
+// Top and bottom share of the page where running headers and footers live
+const MARGIN_ZONE = 0.1;
+const PAGE_NUMBER = /^(?:page\s+)?[ivxlc\d]{1,5}(?:\s*(?:of|\/)\s*\d{1,5})?$/i;
+
+/**
+ * Reorder and clean a PDF layout into reading order
+ */
+export function reconstructLayout(layout: PdfLayout): PdfLayout {
+  const pageFragments = layout.pages.map(page =>
+    buildFragments(layout.spans.filter(span => span.pageNumber === page.pageNumber), layout.text, page)
+  );
+  const running = findRunningLines(pageFragments, layout.pages);
+
+  const pages: PdfPage[] = [];
+  const spans: PdfTextSpan[] = [];
+  let text = '';
+  let removed = 0;
+
+  layout.pages.forEach((page, index) => {
+    if (index > 0) text += '\n';
+    const pageStart = text.length;
+
+    const fragments = pageFragments[index].filter(fragment => {
+      const drop = isMarginFragment(fragment, page) &&
+        (PAGE_NUMBER.test(fragment.text) || running.has(signature(fragment.text)));
+      if (drop) removed++;
+      return !drop;
+    });
+
+    let paragraph = 1;
+    let previous: Fragment | null = null;
+
+    for (const fragment of orderFragments(fragments, page)) {
+      if (previous) {
+        const newColumn = fragment.column !== previous.column;
+        const movedUp = fragment.y < previous.y - previous.height * 0.5;
+        const gap = fragment.y - previous.bottom;
+        const sameLine = Math.abs(fragment.y - previous.y) < previous.height * 0.5;
+        if (newColumn || movedUp || gap > previous.height * 0.8) paragraph++;
+
+        // "trans-" + "formers" → "transformers"; keep the hyphen in compounds like "state-of-the-"
+        const hyphenated = !sameLine && /(?:^|\s)[^\s-]*[A-Za-zÀ-ÿ]-$/.test(previous.text) && /^[a-zà-ÿ]/.test(fragment.text);
+        if (hyphenated && !newColumn) {
+          text = text.replace(/-\s*$/, '');
+          const last = spans[spans.length - 1];
+          last.end = Math.min(last.end, text.length);
+        } else {
+          text += sameLine ? ' ' : '\n';
+        }
+      }
+
+      fragment.spans.forEach((span, i) => {
+        const str = layout.text.slice(span.start, span.end);
+        if (i > 0 && needsSpace(fragment.spans[i - 1], span, text, str)) text += ' ';
+        const start = text.length;
+        text += str;
+        spans.push({ ...span, start, end: text.length, paragraph });
+      });
+      previous = fragment;
+    }
+
+    pages.push({ ...page, start: pageStart, end: text.length });
+  });
+
+  if (removed > 0) {
+    console.log(`[pdf-layout] Dropped ${removed} running header/footer/page-number lines`);
+  }
+
+  return { text, pages, spans };
+}
+
+/**
+ * Group a page's spans into line fragments and classify them by column
+ */
+function buildFragments(spans: PdfTextSpan[], sourceText: string, page: PdfPage): Fragment[] {
+  const center = (span: PdfTextSpan) => span.box.y + span.box.height / 2;
+  const lines: PdfTextSpan[][] = [];
+
+  for (const span of [...spans].sort((a, b) => center(a) - center(b))) {
+    // Superscripts sit a little above the baseline, so allow about half a line of drift
+    const line = lines.find(l => {
+      const height = Math.max(l[0].box.height, span.box.height);
+      return Math.abs(center(l[0]) - center(span)) <= height * 0.6;
+    });
+    if (line) line.push(span);
+    else lines.push([span]);
+  }
+
+  const fragments: Fragment[] = [];
+  for (const line of lines) {
+    line.sort((a, b) => a.box.x - b.box.x);
+    let current: PdfTextSpan[] = [];
+
+    for (const span of line) {
+      const previous = current[current.length - 1];
+      const height = Math.max(span.box.height, previous?.box.height ?? 0, 1);
+      // A gap wider than ~1.5 line heights is a gutter between columns, not a word space
+      if (previous && span.box.x - (previous.box.x + previous.box.width) > height * 1.5) {
+        fragments.push(toFragment(current, sourceText, page));
+        current = [];
+      }
+      current.push(span);
+    }
+    if (current.length > 0) fragments.push(toFragment(current, sourceText, page));
+  }
+
+  return fragments;
+}
+
+function toFragment(spans: PdfTextSpan[], sourceText: string, page: PdfPage): Fragment {
+  const x = Math.min(...spans.map(s => s.box.x));
+  const right = Math.max(...spans.map(s => s.box.x + s.box.width));
+  const y = Math.min(...spans.map(s => s.box.y));
+  const bottom = Math.max(...spans.map(s => s.box.y + s.box.height));
+  const mid = page.width / 2;
+  const slack = page.width * 0.05;
+
+  const column: Column = x < mid - slack && right > mid + slack
+    ? 'full'
+    : right <= mid + slack ? 'left' : 'right';
+
+  return {
+    spans,
+    text: spans.map(s => sourceText.slice(s.start, s.end)).join(' ').replace(/\s+/g, ' ').trim(),
+    x,
+    y,
+    right,
+    bottom,
+    height: Math.max(...spans.map(s => s.box.height), 1),
+    column,
+  };
+}
+
+/**
+ * Reading order: on two-column pages, each band between full-width lines
+ * (title, abstract, wide figures) is read left column first, then right
+ */
+function orderFragments(fragments: Fragment[], page: PdfPage): Fragment[] {
+  const byPosition = [...fragments].sort((a, b) => a.y - b.y || a.x - b.x);
+  const left = fragments.filter(f => f.column === 'left').length;
+  const right = fragments.filter(f => f.column === 'right').length;
+  const twoColumn = left >= 3 && right >= 3 && right >= fragments.length * 0.2;
+
+  if (!twoColumn) {
+    return byPosition.map(fragment => ({ ...fragment, column: 'full' as Column }));
+  }
+
+  const ordered: Fragment[] = [];
+  let band: Fragment[] = [];
+  const flush = () => {
+    ordered.push(...band.filter(f => f.column === 'left'), ...band.filter(f => f.column === 'right'));
+    band = [];
+  };
+
+  for (const fragment of byPosition) {
+    // Short centred lines (a page number, a lone heading) do not split the columns
+    const wide = fragment.column === 'full' && fragment.right - fragment.x > page.width * 0.5;
+    if (wide) {
+      flush();
+      ordered.push(fragment);
+    } else {
+      band.push(fragment.column === 'full' ? { ...fragment, column: 'left' } : fragment);
+    }
+  }
+  flush();
+
+  return ordered;
+}
+
+/**
+ * Header/footer lines that repeat (ignoring digits) on enough pages to be running text
+ */
+function findRunningLines(pageFragments: Fragment[][], pages: PdfPage[]): Set<string> {
+  const running = new Set<string>();
+  if (pages.length < 3) return running;
+
+  const counts = new Map<string, number>();
+  pageFragments.forEach((fragments, index) => {
+    const seen = new Set(
+      fragments.filter(f => isMarginFragment(f, pages[index])).map(f => signature(f.text))
+    );
+    for (const key of seen) counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const threshold = Math.max(3, Math.ceil(pages.length * 0.4));
+  for (const [key, count] of counts) {
+    if (key && count >= threshold) running.add(key);
+  }
+  return running;
+}
+
+function isMarginFragment(fragment: Fragment, page: PdfPage): boolean {
+  return fragment.bottom <= page.height * MARGIN_ZONE || fragment.y >= page.height * (1 - MARGIN_ZONE);
+}
+
+function signature(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+function needsSpace(previous: PdfTextSpan, span: PdfTextSpan, text: string, str: string): boolean {
+  if (/\s$/.test(text) || /^\s/.test(str)) return false;
+  const gap = span.box.x - (previous.box.x + previous.box.width);
+  return gap > Math.max(previous.box.height, span.box.height) * 0.15;
+}
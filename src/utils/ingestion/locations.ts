@@ -0,0 +1,86 @@
+/**
+ * Citation locations
+ * Maps citation offsets in ParsedDocument.bodyText back onto the PDF text layer
+ * to get the page, paragraph and bounding boxes of each occurrence.
+ */
+
+import type { OccurrenceBox } from '@/types/database';
+import type { PdfLayout, PdfTextSpan } from '@/utils/ingestion/pdf';
+import type { ReferenceOccurrence } from '@/utils/ingestion/references';
+
+export interface LocatedOccurrence extends ReferenceOccurrence {
+  pageNumber: number | null;
+  paragraph: number | null;
+  boxes: OccurrenceBox[];
+}
+
+/**
+ * Build a locator for one document. Without a layout (DOCX, LaTeX, XML) the
+ * occurrences keep their character offsets but have no page or boxes.
+ */
+export function createOccurrenceLocator(
+  bodyText: string,
+  layout: PdfLayout | null
+): (occurrence: ReferenceOccurrence) => LocatedOccurrence {
+  if (!layout) {
+    return occurrence => ({ ...occurrence, pageNumber: null, paragraph: null, boxes: [] });
+  }
+
+  const toSource = alignOffsets(bodyText, layout.text);
+
+  return occurrence => {
+    const start = toSource[occurrence.start];
+    const end = occurrence.end > occurrence.start ? toSource[occurrence.end - 1] + 1 : start;
+    const spans = layout.spans.filter(span => span.start < end && span.end > start);
+
+    const page = spans[0]?.pageNumber
+      ?? layout.pages.find(p => start >= p.start && start < p.end)?.pageNumber
+      ?? null;
+
+    return {
+      ...occurrence,
+      pageNumber: page,
+      paragraph: spans[0]?.paragraph ?? null,
+      boxes: spans.map(span => clipBox(span, start, end)),
+    };
+  };
+}
+
+/**
+ * Map each offset in `derived` to an offset in `source`, where `derived` was
+ * produced from `source` by normalizeText (whitespace runs collapsed, quotes
+ * and dashes swapped one-for-one) and then cut before the bibliography.
+ */
+function alignOffsets(derived: string, source: string): Int32Array {
+  const map = new Int32Array(derived.length + 1);
+  let i = 0;
+
+  for (let j = 0; j < derived.length; j++) {
+    if (/\s/.test(derived[j])) {
+      map[j] = i;
+      while (i < source.length && /\s/.test(source[i])) i++;
+      continue;
+    }
+    while (i < source.length && /\s/.test(source[i])) i++;
+    map[j] = Math.min(i, source.length - 1);
+    i++;
+  }
+  map[derived.length] = Math.min(i, source.length);
+
+  return map;
+}
+
+// Narrow a span's box to the characters of the citation, assuming even glyph widths
+function clipBox(span: PdfTextSpan, start: number, end: number): OccurrenceBox {
+  const length = span.end - span.start;
+  const from = Math.max(start, span.start) - span.start;
+  const to = Math.min(end, span.end) - span.start;
+  const charWidth = length > 0 ? span.box.width / length : 0;
+
+  return {
+    x: Math.round((span.box.x + from * charWidth) * 100) / 100,
+    y: span.box.y,
+    width: Math.round((to - from) * charWidth * 100) / 100,
+    height: span.box.height,
+  };
+}
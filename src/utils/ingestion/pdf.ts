@@ -0,0 +1,84 @@
+import { getDocumentProxy } from 'unpdf';
+import type { OccurrenceBox } from '@/types/database';
+
+export interface PdfTextSpan {
+  start: number; // character offsets into PdfLayout.text
+  end: number;
+  pageNumber: number;
+  paragraph: number | null; // 1-based paragraph on the page, assigned by reconstructLayout
+  box: OccurrenceBox;
+}
+
+export interface PdfPage {
+  pageNumber: number;
+  start: number; // character offsets of this page in PdfLayout.text
+  end: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfLayout {
+  text: string; // pages joined with '\n'; raw text-layer order until reconstructLayout
+  pages: PdfPage[];
+  spans: PdfTextSpan[]; // one per text-layer item, in reading order
+}
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+type PdfTextContentItem = Awaited<ReturnType<Awaited<ReturnType<PdfDocument['getPage']>>['getTextContent']>>['items'][number];
+type PdfTextItem = Extract<PdfTextContentItem, { str: string }>;
+
+/**
+ * Extract the PDF text layer page by page (works in Node.js without browser APIs),
+ * keeping where each piece of text sits so citations can be located on the page
+ */
+export async function extractPdfLayout(buffer: Buffer): Promise<PdfLayout> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const pages: PdfPage[] = [];
+  const spans: PdfTextSpan[] = [];
+  let text = '';
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const items = content.items.filter((item): item is PdfTextItem => 'str' in item && item.str != null);
+
+    if (pageNumber > 1) text += '\n';
+    const pageStart = text.length;
+
+    for (const item of items) {
+      // Same text as unpdf's extractText: item strings, newline after end-of-line items
+      const start = text.length;
+      text += item.str;
+      const end = text.length;
+      if (item.hasEOL) text += '\n';
+      // Vertical text is margin furniture (e.g. the arXiv identifier stamp), not body text
+      if (!item.str.trim() || Math.abs(item.transform[1]) > Math.abs(item.transform[0])) continue;
+
+      // PDF user space has a bottom-left origin; store boxes top-left like the viewport
+      const height = item.height || Math.abs(item.transform[3]) || 0;
+      const box: OccurrenceBox = {
+        x: round(item.transform[4]),
+        y: round(viewport.height - item.transform[5] - height),
+        width: round(item.width),
+        height: round(height),
+      };
+
+      spans.push({ start, end, pageNumber, paragraph: null, box });
+    }
+
+    pages.push({ pageNumber, start: pageStart, end: text.length, width: viewport.width, height: viewport.height });
+  }
+
+  if (!text.trim()) {
+    throw new Error('PDF text is empty or could not be parsed');
+  }
+
+  // Remove control characters left behind by poorly-formed PDFs (length-preserving,
+  // so span offsets stay valid)
+  return { text: text.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\r]/g, ' '), pages, spans };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
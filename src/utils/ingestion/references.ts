@@ -0,0 +1,187 @@
+/**
+ * Reference ingestion
+ * Turns a ParsedDocument into the rows stored in document_references and
+ * applies the per-plan reference cap without losing track of skipped entries.
+ */
+
+import type { BibliographyEntry, ParsedDocument } from '@/utils/citation-parser';
+import type { SkippedReference } from '@/types/database';
+import type { ReferenceCap } from '@/utils/plan-limits';
+import { findDuplicateGroups } from '@/utils/ingestion/duplicates';
+
+export interface ReferenceOccurrence {
+  start: number; // character offsets of the citation in ParsedDocument.bodyText
+  end: number;
+  text: string; // the citation as written, e.g. "[3-5]" or "(Smith, 2020)"
+  context: string; // the two sentences before it
+}
+
+export interface ReferenceRecord {
+  entryId: string;
+  position: number; // index in the parsed bibliography
+  rawReference: string;
+  contextBefore: string | null;
+  contextAfter: string | null;
+  citationCount: number; // how many times this reference is cited
+  occurrences: ReferenceOccurrence[];
+  title: string | null;
+  authors: string[];
+  year: number | null;
+  journal: string | null;
+  duplicateOf: number | null; // position of an earlier entry describing the same work
+}
+
+export interface CappedReferences {
+  kept: ReferenceRecord[];
+  skipped: SkippedReference[];
+}
+
+/**
+ * Build one record per bibliography entry, with the citing context for each
+ */
+export function buildReferenceRecords(parsedDoc: ParsedDocument): ReferenceRecord[] {
+  const bodyText = parsedDoc.bodyText;
+
+  // Find all citation brackets once: [5], [35, 2, 5], [3-5], [5-10]
+  const brackets: Bracket[] = [];
+  const bracketRegex = /\[\d+(?:\s*[-,]\s*\d+)*\]/g;
+  let match;
+  while ((match = bracketRegex.exec(bodyText)) !== null) {
+    const numbers = match[0].replace(/[\[\]]/g, '').split(/[-,]\s*/).map(n => n.trim());
+    const range: [number, number] | null = match[0].includes('-')
+      ? [parseInt(numbers[0]), parseInt(numbers[numbers.length - 1])]
+      : null;
+    brackets.push({ numbers, range, index: match.index, length: match[0].length });
+  }
+
+  // Citations with an importer-recorded offset are located exactly; other
+  // non-numeric citations (author-date, citation fields) by their text
+  const textCitations = new Map<string, string[]>();
+  const citationOffsets = new Map<string, Array<{ index: number; length: number }>>();
+  for (const citation of parsedDoc.inTextCitations) {
+    const entryId = parsedDoc.citationToBibMapping.get(citation.citationId);
+    if (!entryId) continue;
+    if (citation.offset !== undefined) {
+      const located = { index: citation.offset, length: citation.rawText.length };
+      citationOffsets.set(entryId, [...(citationOffsets.get(entryId) ?? []), located]);
+      continue;
+    }
+    // A bare number would match anywhere in the text
+    if (citation.type === 'numeric' || citation.type === 'note') continue;
+    const raws = textCitations.get(entryId) ?? [];
+    if (!raws.includes(citation.rawText)) raws.push(citation.rawText);
+    textCitations.set(entryId, raws);
+  }
+
+  const duplicateOf = new Map<number, number>();
+  for (const group of findDuplicateGroups(parsedDoc.bibliography)) {
+    for (const position of group.duplicates) duplicateOf.set(position, group.canonical);
+  }
+
+  return parsedDoc.bibliography.map((bibEntry, position) => {
+    const { contexts, occurrences } = findContexts(
+      bodyText,
+      bibEntry,
+      brackets,
+      textCitations.get(bibEntry.entryId) ?? [],
+      citationOffsets.get(bibEntry.entryId) ?? []
+    );
+
+    return {
+      entryId: bibEntry.entryId,
+      position,
+      rawReference: bibEntry.rawText,
+      // Join multiple contexts with separator
+      contextBefore: contexts.length > 0 ? contexts.join(' | ') : null,
+      contextAfter: null,
+      citationCount: contexts.length,
+      occurrences,
+      title: bibEntry.title,
+      authors: bibEntry.authors,
+      year: bibEntry.year,
+      journal: bibEntry.journal,
+      duplicateOf: duplicateOf.get(position) ?? null,
+    };
+  });
+}
+
+interface Bracket {
+  numbers: string[];
+  range: [number, number] | null;
+  index: number;
+  length: number;
+}
+
+function findContexts(
+  bodyText: string,
+  bibEntry: BibliographyEntry,
+  brackets: Bracket[],
+  citationTexts: string[],
+  citationOffsets: Array<{ index: number; length: number }>
+): { contexts: string[]; occurrences: ReferenceOccurrence[] } {
+  const contexts: string[] = [];
+  const occurrences: ReferenceOccurrence[] = [];
+  const refNum = parseInt(bibEntry.entryId);
+
+  const positions = brackets
+    .filter(b => b.range
+      ? refNum >= b.range[0] && refNum <= b.range[1]
+      : b.numbers.includes(bibEntry.entryId))
+    .map(b => ({ index: b.index, length: b.length }));
+  positions.push(...citationOffsets);
+
+  for (const rawText of citationTexts) {
+    if (!rawText) continue;
+    let searchPos = 0;
+    while (true) {
+      const pos = bodyText.indexOf(rawText, searchPos);
+      if (pos === -1) break;
+      positions.push({ index: pos, length: rawText.length });
+      searchPos = pos + 1;
+    }
+  }
+  positions.sort((a, b) => a.index - b.index);
+
+  for (const { index: citationIndex, length } of positions) {
+    if (citationIndex <= 0) continue;
+
+    // Extract 2 sentences before the citation
+    const sentences = bodyText.substring(0, citationIndex).split(/[.!?]+\s+/);
+    const last2Sentences = sentences.slice(-2).join('. ').trim();
+
+    if (last2Sentences && !contexts.includes(last2Sentences)) {
+      contexts.push(last2Sentences);
+    }
+
+    // Grouped citations share a position; record each occurrence once
+    if (!occurrences.some(o => o.start === citationIndex)) {
+      occurrences.push({
+        start: citationIndex,
+        end: citationIndex + length,
+        text: bodyText.substring(citationIndex, citationIndex + length),
+        context: last2Sentences,
+      });
+    }
+  }
+
+  return { contexts, occurrences };
+}
+
+/**
+ * Keep the first `cap.limit` references and record why the rest were skipped
+ */
+export function applyReferenceCap(records: ReferenceRecord[], cap: ReferenceCap): CappedReferences {
+  if (cap.limit === null || records.length <= cap.limit) {
+    return { kept: records, skipped: [] };
+  }
+
+  const skipped = records.slice(cap.limit).map((record): SkippedReference => ({
+    entry_id: record.entryId,
+    position: record.position,
+    raw_reference: record.rawReference,
+    reason: 'plan_cap',
+    detail: cap.reason,
+  }));
+
+  return { kept: records.slice(0, cap.limit), skipped };
+}
@@ -0,0 +1,110 @@
+/**
+ * GROBID TEI Ingestion
+ * Maps GROBID's TEI output (<listBibl> biblStructs and <ref type="bibr">
+ * citations) straight into a ParsedDocument.
+ */
+
+import type { BibliographyEntry, ParsedDocument } from '@/utils/citation-parser';
+import { findElements, firstText, getAttribute, renderBodyText, textContent } from '@/utils/ingestion/xml';
+import { buildLinkedDocument, formatEntryText } from '@/utils/ingestion/entries';
+
+const BLOCK_TAGS = ['p', 'head', 'div', 'item', 'figDesc', 'note', 'abstract', 'body'];
+
+/**
+ * Parse a GROBID TEI document into a ParsedDocument
+ */
+export function parseTeiDocument(xml: string): ParsedDocument {
+  const [body] = findElements(xml, 'body');
+  if (!body) {
+    throw new Error('TEI document has no <body>');
+  }
+  const [abstract] = findElements(xml, 'abstract');
+
+  const { text, citations } = renderBodyText(
+    `${abstract ? `<abstract>${abstract.inner}</abstract>` : ''}<body>${body.inner}</body>`,
+    BLOCK_TAGS,
+    (openTag, name) => {
+      if (name !== 'ref' || getAttribute(openTag, 'type') !== 'bibr') return null;
+      // GROBID leaves target off citations it could not resolve
+      return (getAttribute(openTag, 'target') ?? '')
+        .split(/\s+/)
+        .map(target => target.replace(/^#/, ''))
+        .filter(Boolean);
+    }
+  );
+
+  const listBibl = findElements(xml, 'listBibl').map(list => list.inner).join('\n');
+  const bibliography = findElements(listBibl, 'biblStruct')
+    .map(bibl => parseBiblStruct(bibl.open, bibl.inner))
+    .filter((entry): entry is BibliographyEntry => entry !== null);
+
+  console.log(`[tei-ingest] ${bibliography.length} references, ${citations.length} citations`);
+
+  return buildLinkedDocument(
+    text,
+    bibliography.map(entry => entry.rawText).join('\n'),
+    citations,
+    bibliography
+  );
+}
+
+function parseBiblStruct(open: string, inner: string): BibliographyEntry | null {
+  const id = getAttribute(open, 'xml:id');
+  if (!id) return null;
+
+  const [analytic] = findElements(inner, 'analytic');
+  const [monogr] = findElements(inner, 'monogr');
+  const monogrXml = monogr?.inner ?? '';
+
+  const authors = findElements(analytic?.inner ?? monogrXml, 'author')
+    .map(author => {
+      const [persName] = findElements(author.inner, 'persName');
+      if (!persName) return firstText(author.inner, 'orgName') ?? '';
+      return [
+        ...findElements(persName.inner, 'forename').map(f => textContent(f.inner)),
+        firstText(persName.inner, 'surname'),
+      ]
+        .filter(Boolean)
+        .join(' ');
+    })
+    .filter(Boolean);
+
+  const titles = findElements(inner, 'title').map(t => ({ level: getAttribute(t.open, 'level'), text: textContent(t.inner) }));
+  const articleTitle = titles.find(t => t.level === 'a')?.text ?? null;
+  const monogrTitle = titles.find(t => t.level === 'j' || t.level === 'm' || t.level === 's')?.text ?? null;
+
+  const scope = (unit: string) => {
+    const element = findElements(monogrXml, 'biblScope').find(b => getAttribute(b.open, 'unit') === unit);
+    if (!element) return null;
+    const from = getAttribute(element.open, 'from');
+    const to = getAttribute(element.open, 'to');
+    if (from) return to ? `${from}–${to}` : from;
+    return textContent(element.inner) || null;
+  };
+
+  const date = findElements(monogrXml, 'date')[0];
+  const year = (date ? getAttribute(date.open, 'when') ?? textContent(date.inner) : '').match(/\d{4}/);
+  const doi = findElements(inner, 'idno').find(i => getAttribute(i.open, 'type')?.toUpperCase() === 'DOI');
+  const ptr = findElements(inner, 'ptr')[0];
+  const raw = findElements(inner, 'note').find(n => getAttribute(n.open, 'type') === 'raw_reference');
+
+  const entry: BibliographyEntry = {
+    entryId: id,
+    rawText: '',
+    authors,
+    title: articleTitle ?? monogrTitle,
+    year: year ? parseInt(year[0]) : null,
+    journal: articleTitle ? monogrTitle : null,
+    volume: scope('volume'),
+    issue: scope('issue'),
+    pages: scope('page'),
+    doi: doi ? textContent(doi.inner) : null,
+    url: ptr ? getAttribute(ptr.open, 'target') : null,
+    publisher: firstText(monogrXml, 'publisher'),
+    confidence: 1,
+  };
+
+  // GROBID keeps the original reference string when run with includeRawCitations
+  entry.rawText = raw ? textContent(raw.inner) : formatEntryText(entry);
+  return entry;
+}
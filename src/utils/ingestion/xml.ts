@@ -0,0 +1,129 @@
+/**
+ * Minimal XML helpers for the structured ingestion paths (DOCX, JATS, TEI).
+ * These formats are machine-generated, so tag-level regex extraction is enough.
+ */
+
+export function decodeXmlEntities(str: string): string {
+  return str
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function stripTags(str: string): string {
+  return str.replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Text content of an XML fragment, with whitespace collapsed
+ */
+export function textContent(xml: string): string {
+  return decodeXmlEntities(stripTags(xml)).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read an attribute from the first tag in `tag` (e.g. `<xref rid="b1">`)
+ */
+export function getAttribute(tag: string, name: string): string | null {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = tag.match(new RegExp(`\\s${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  if (!match) return null;
+  return decodeXmlEntities(match[1] ?? match[2] ?? '');
+}
+
+/**
+ * All elements named `tag` (non-nested) with their opening tag, inner XML and offset
+ */
+export function findElements(xml: string, tag: string): Array<{ open: string; inner: string; index: number }> {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Self-closing tags must not open a block, or they would swallow the next element
+  const regex = new RegExp(`(<${escaped}(?:\\s[^>]*)?(?<!\\/)>)([\\s\\S]*?)<\\/${escaped}>|<${escaped}(?:\\s[^>]*)?\\/>`, 'g');
+  const results: Array<{ open: string; inner: string; index: number }> = [];
+
+  let match;
+  while ((match = regex.exec(xml)) !== null) {
+    results.push({
+      open: match[1] ?? match[0],
+      inner: match[2] ?? '',
+      index: match.index,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Text content of the first `tag` element inside `xml`, or null
+ */
+export function firstText(xml: string, tag: string): string | null {
+  const [element] = findElements(xml, tag);
+  if (!element) return null;
+  const text = textContent(element.inner);
+  return text || null;
+}
+
+export interface XmlCitationMark {
+  ids: string[]; // referenced bibliography ids, empty when the citation is unresolved
+  text: string; // rendered citation text, e.g. "[3]" or "Smith et al., 2020"
+  offset: number; // character offset of `text` in the rendered body
+}
+
+/**
+ * Render a body fragment as plain text with paragraph breaks at `blockTags`,
+ * recording where each citation element lands. `citationIds` receives every
+ * opening tag and returns the referenced ids for citation elements, or null.
+ */
+export function renderBodyText(
+  xml: string,
+  blockTags: string[],
+  citationIds: (openTag: string, name: string) => string[] | null
+): { text: string; citations: XmlCitationMark[] } {
+  const citations: XmlCitationMark[] = [];
+  let text = '';
+  let open: { name: string; depth: number; mark: XmlCitationMark } | null = null;
+
+  const breakParagraph = () => {
+    text = text.trimEnd();
+    if (text && !text.endsWith('\n\n')) text += '\n\n';
+  };
+
+  for (const token of xml.match(/<[^>]+>|[^<]+/g) ?? []) {
+    if (!token.startsWith('<')) {
+      let chunk = decodeXmlEntities(token).replace(/\s+/g, ' ');
+      if (!text || text.endsWith('\n\n')) chunk = chunk.trimStart();
+      text += chunk;
+      continue;
+    }
+    if (token.startsWith('<?') || token.startsWith('<!')) continue;
+
+    const name = token.match(/^<\/?([^\s/>]+)/)?.[1] ?? '';
+    const closing = token.startsWith('</');
+    const selfClosing = token.endsWith('/>');
+
+    if (open) {
+      if (name === open.name && !selfClosing) open.depth += closing ? -1 : 1;
+      if (open.depth === 0) {
+        open.mark.text = text.slice(open.mark.offset);
+        citations.push(open.mark);
+        open = null;
+      }
+      continue;
+    }
+
+    if (blockTags.includes(name)) {
+      breakParagraph();
+      continue;
+    }
+
+    if (!closing && !selfClosing) {
+      const ids = citationIds(token, name);
+      if (ids) open = { name, depth: 1, mark: { ids, text: '', offset: text.length } };
+    }
+  }
+
+  return { text: text.trim(), citations };
+}
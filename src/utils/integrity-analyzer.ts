@@ -1,106 +1,116 @@
-import OpenAI from 'openai';
-
-let openai: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI | null {
-  if (!process.env.OPENAI_API_KEY) {
-    return null;
-  }
-  
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  
-  return openai;
+import { completeStructured, getLlmProvider } from '@/utils/llm';
+import { ABSTRACT_REVIEW, FULL_TEXT_REVIEW, renderPrompt } from '@/utils/prompts';
+import { rankPassages, splitPassages, type RankedPassage } from '@/utils/verification/passages';
+import type { ReviewState } from '@/types/database';
+
+export interface IntegrityReview {
+  state: ReviewState;
+  score: number | null; // 1-10, only when state is 'scored'
+  justification: string | null; // the model's reasoning, when scored
+  reason: string | null; // why there is no score otherwise
 }
 
-interface IntegrityReview {
+interface FullTextReview {
   score: number; // 1-10
   justification: string;
-  error?: string;
+  quote: string | null; // passage text the model relied on, checked to occur in the paper
+  passages: RankedPassage[]; // what the model was shown, most relevant first
 }
 
+// Passages shown to the model; enough to cover a finding and its caveats
+const REVIEW_PASSAGES = 5;
+
+/**
+ * Judge the citing context against the cited paper's abstract. Anything short
+ * of a usable score from the model comes back unscored, with the reason.
+ */
 export async function analyzeReferenceIntegrity(
   reference: string,
   uploadedPaperContext: string,
   fullPaperAbstract: string
 ): Promise<IntegrityReview> {
-  const client = getOpenAIClient();
+  const llm = getLlmProvider();
   
-  if (!client) {
-    return {
-      score: 10,
-      justification: 'Paper found in repository',
-    };
+  if (!llm) {
+    return unscored('skipped', 'No LLM provider is configured');
   }
 
-  try {
-    const prompt = `You are a paper reviewer. Your job is to assess if a reference used in a paper is accurate and holds the spirit of the referred paper.
-
-REFERENCE FROM UPLOADED PAPER:
-"${reference}"
-
-CONTEXT WHERE REFERENCE WAS CITED (100 words before and after):
-"${uploadedPaperContext}"
-
-ABSTRACT OF THE REFERENCED PAPER:
-"${fullPaperAbstract}"
-
-Please evaluate:
-1. Is the reference accurately cited?
-2. Does the citation context match the spirit and findings of the referenced paper?
-3. Is the reference being used appropriately in the uploaded paper?
-
-Provide:
-- An integrity score between 1 and 10 (1 = completely inaccurate/misused, 10 = perfectly accurate)
-- A brief justification (2-3 sentences) explaining your score
-
-Respond in this exact JSON format:
-{
-  "score": <number 1-10>,
-  "justification": "<your explanation>"
-}`;
+  if (!fullPaperAbstract.trim()) {
+    return unscored('no_source', 'The cited paper has no abstract to compare against');
+  }
 
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
-      max_tokens: 256,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+  try {
+    const answer = await completeStructured(llm, {
+      task: ABSTRACT_REVIEW.name,
+      schema: ABSTRACT_REVIEW.schema,
+      messages: renderPrompt(ABSTRACT_REVIEW, { reference, citingContext: uploadedPaperContext, abstract: fullPaperAbstract }),
+      maxTokens: 256,
     });
 
-    // Extract text from response
-    const responseText =
-      response.choices[0]?.message?.content || '';
-
-    // Parse JSON response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return {
-        score: 10,
-        justification: 'Paper found in repository',
-      };
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    // Validate score is between 1-10
-    const score = Math.max(1, Math.min(10, parseInt(parsed.score) || 10));
-
     return {
-      score,
-      justification: parsed.justification || 'Paper found in repository',
+      state: 'scored',
+      score: Math.round(answer.score),
+      justification: answer.justification.trim() || null,
+      reason: null,
     };
   } catch (err) {
     console.error('Error analyzing reference integrity:', err);
+    return unscored('failed', `No usable answer from the model: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Judge the citing claim against the passages of the cited paper's full text
+ * that are most relevant to it. Returns null when no model is configured,
+ * nothing in the paper relates to the claim or no valid answer comes back,
+ * so callers can fall back to the abstract.
+ */
+export async function analyzeClaimAgainstFullText(
+  reference: string,
+  citingContext: string,
+  fullText: string
+): Promise<FullTextReview | null> {
+  const llm = getLlmProvider();
+  if (!llm) return null;
+
+  const passages = rankPassages(citingContext, splitPassages(fullText), REVIEW_PASSAGES);
+  if (passages.length === 0) {
+    console.log('[integrity-analyzer] No passage of the cited paper relates to the citing context');
+    return null;
+  }
+
+  try {
+    const answer = await completeStructured(llm, {
+      task: FULL_TEXT_REVIEW.name,
+      schema: FULL_TEXT_REVIEW.schema,
+      messages: renderPrompt(FULL_TEXT_REVIEW, { reference, citingContext, passages: passages.map(passage => passage.text) }),
+      maxTokens: 400,
+    });
+
     return {
-      score: 10,
-      justification: 'Paper found in repository',
+      score: Math.round(answer.score),
+      justification: answer.justification.trim() || 'Claim checked against the full text',
+      quote: verbatimQuote(answer.quote, passages),
+      passages,
     };
+  } catch (err) {
+    console.error('Error analyzing claim against full text:', err);
+    return null;
   }
 }
+
+// Models paraphrase when asked to quote; only keep a quote that is really in the paper
+function verbatimQuote(quote: string | null, passages: RankedPassage[]): string | null {
+  if (!quote?.trim()) return null;
+
+  const squash = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').replace(/^["'\s]+|["'\s.]+$/g, '');
+  const wanted = squash(quote);
+  if (passages.some(passage => squash(passage.text).includes(wanted))) return quote.trim();
+
+  console.warn('[integrity-analyzer] Discarding a quote that does not occur in the cited passages');
+  return null;
+}
+
+function unscored(state: Exclude<ReviewState, 'scored'>, reason: string): IntegrityReview {
+  return { state, score: null, justification: null, reason };
+}
@@ -0,0 +1,58 @@
+/**
+ * Processing jobs
+ * Uploads and validations run as queued jobs in processing_jobs instead of
+ * inside the request: parse_references for an upload, then match_canonical
+ * and verify_integrity for a validation. Routes queue a job, return its id and
+ * drain the queue after responding; the cron route drains whatever is left,
+ * including retries whose backoff has passed.
+ */
+
+import {
+  createProcessingJob,
+  resetDocumentReferenceValidation,
+  updateDocumentStatus,
+  uploadDocumentFile,
+} from '@/utils/database/operations';
+import type { ProcessingJob } from '@/types/database';
+
+export { drainJobs, runJob, type DrainOptions } from '@/utils/jobs/worker';
+
+/**
+ * Store an upload and queue its parse_references job
+ */
+export async function queueUpload(
+  documentId: string,
+  upload: { file: Buffer; fileName: string; contentType: string; userId: string }
+): Promise<ProcessingJob> {
+  // One upload per document; an overwritten document gets a new id
+  const filePath = documentId;
+  await uploadDocumentFile(filePath, upload.file, upload.contentType || 'application/octet-stream');
+  await updateDocumentStatus(documentId, 'processing');
+
+  return createProcessingJob(documentId, 'parse_references', {
+    file_path: filePath,
+    file_name: upload.fileName,
+    content_type: upload.contentType,
+    user_id: upload.userId,
+  });
+}
+
+// 'all' validates from scratch; 'outdated' keeps the resolution and existence
+// checks and repeats only context reviews made with an older prompt version,
+// then the overall review
+export type ValidationScope = 'all' | 'outdated';
+
+/**
+ * Queue a validation of a document, clearing the previous one unless only outdated reviews are re-run
+ */
+export async function queueValidation(documentId: string, scope: ValidationScope = 'all'): Promise<ProcessingJob> {
+  if (scope === 'outdated') {
+    await updateDocumentStatus(documentId, 'processing');
+    return createProcessingJob(documentId, 'verify_integrity');
+  }
+
+  await resetDocumentReferenceValidation(documentId);
+  await updateDocumentStatus(documentId, 'processing');
+
+  return createProcessingJob(documentId, 'match_canonical');
+}
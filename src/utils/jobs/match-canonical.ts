@@ -0,0 +1,33 @@
+/**
+ * match_canonical job
+ * Resolves a document's references against Crossref/OpenAlex, which also
+ * scores their existence, screens them for retractions, then queues
+ * verify_integrity. A retried attempt skips references already resolved and
+ * does not queue verify_integrity twice.
+ */
+
+import { createProcessingJob, findActiveProcessingJob } from '@/utils/database/operations';
+import { resolveDocumentReferences } from '@/utils/resolver';
+import { screenDocumentReferences } from '@/utils/retractions';
+import type { ProgressReporter } from '@/utils/jobs/progress';
+import type { ProcessingJob } from '@/types/database';
+
+export async function runMatchCanonical(job: ProcessingJob, progress: ProgressReporter): Promise<void> {
+  await progress('resolving');
+  await resolveDocumentReferences(job.document_id, {
+    pendingOnly: true,
+    onProgress: (done, total) => progress('resolving', done, total),
+  });
+
+  await progress('screening');
+  await screenDocumentReferences(job.document_id);
+
+  const active = await findActiveProcessingJob(job.document_id, 'verify_integrity');
+  if (active) {
+    console.log(`[jobs] verify_integrity ${active.id} already queued for document ${job.document_id}`);
+    return;
+  }
+
+  const next = await createProcessingJob(job.document_id, 'verify_integrity');
+  console.log(`[jobs] Queued verify_integrity ${next.id} for document ${job.document_id}`);
+}
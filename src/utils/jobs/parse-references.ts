@@ -0,0 +1,141 @@
+/**
+ * parse_references job
+ * Reads an upload back from storage, extracts its bibliography and in-text
+ * citations, and stores them as document references with their occurrences.
+ * A retried attempt replaces whatever an interrupted one stored.
+ */
+
+import {
+  createCitationOccurrences,
+  createDocumentReferences,
+  deleteDocumentReferences,
+  downloadDocumentFile,
+  getUserPlan,
+  removeDocumentFile,
+  updateDocumentCitationReport,
+  updateDocumentReferenceCounts,
+  updateDocumentStatus,
+} from '@/utils/database/operations';
+import { detectUploadFormat, parseUploadedDocument } from '@/utils/ingestion';
+import { buildReferenceRecords, applyReferenceCap } from '@/utils/ingestion/references';
+import { createOccurrenceLocator } from '@/utils/ingestion/locations';
+import { buildCitationReport } from '@/utils/ingestion/citation-report';
+import { getReferenceCap } from '@/utils/plan-limits';
+import type { ProgressReporter } from '@/utils/jobs/progress';
+import type { ProcessingJob } from '@/types/database';
+
+export async function runParseReferences(job: ProcessingJob, progress: ProgressReporter): Promise<void> {
+  const { file_path: filePath, file_name: fileName, content_type: contentType, user_id: userId } = job.payload;
+  if (!filePath || !fileName || !userId) {
+    throw new Error('Job has no uploaded file to parse');
+  }
+
+  const format = detectUploadFormat(fileName, contentType ?? '');
+  if (!format) {
+    throw new Error(`Unsupported upload format: ${fileName}`);
+  }
+
+  const documentId = job.document_id;
+  await progress('extracting');
+  const buffer = await downloadDocumentFile(filePath);
+  console.log(`[jobs] Extracting references from ${fileName} (${format}), ${buffer.length} bytes`);
+  const startTime = Date.now();
+
+  // Extract text and run the comprehensive citation parser
+  const { parsedDoc, layout } = await parseUploadedDocument(buffer, format);
+  const locateOccurrence = createOccurrenceLocator(parsedDoc.bodyText, layout);
+
+  console.log(`[jobs] Detected citation style: ${parsedDoc.style} (${(parsedDoc.styleConfidence * 100).toFixed(0)}% confidence)`);
+  console.log(`[jobs] Found ${parsedDoc.bibliography.length} bibliography entries and ${parsedDoc.inTextCitations.length} in-text citations`);
+
+  // Every parsed entry gets a record; only the plan cap may hold some back
+  const records = buildReferenceRecords(parsedDoc);
+  const cap = getReferenceCap(await getUserPlan(userId));
+  const capped = applyReferenceCap(records, cap);
+
+  if (capped.skipped.length > 0) {
+    console.log(`[jobs] ${cap.planType} plan cap (${cap.limit}) skipped ${capped.skipped.length} of ${records.length} references`);
+  }
+
+  const duplicateCount = capped.kept.filter((ref) => ref.duplicateOf !== null).length;
+  if (duplicateCount > 0) {
+    console.log(`[jobs] ${duplicateCount} references duplicate an earlier entry`);
+  }
+
+  // Save citation style and parsed/stored/skipped counts to document
+  // (duplicates are stored but count once)
+  await updateDocumentReferenceCounts(documentId, {
+    citationStyle: parsedDoc.style,
+    storedReferences: capped.kept.length - duplicateCount,
+    parsedReferences: records.length,
+    skippedReferences: capped.skipped,
+  });
+
+  // Report citations and entries that do not line up (over the full parse, not the capped list)
+  await updateDocumentCitationReport(documentId, buildCitationReport(parsedDoc));
+
+  console.log(`[jobs] Extraction took ${Date.now() - startTime}ms for ${capped.kept.length} references`);
+
+  await progress('storing');
+
+  // An interrupted attempt may have stored some references already
+  await deleteDocumentReferences(documentId);
+
+  // Save document references with parsed metadata
+  const documentReferences = await createDocumentReferences(
+    documentId,
+    capped.kept.map((ref) => ({
+      rawCitationText: ref.rawReference,
+      contextBefore: ref.contextBefore || undefined,
+      contextAfter: ref.contextAfter || undefined,
+      positionInDoc: ref.position,
+      duplicateOfPosition: ref.duplicateOf ?? undefined,
+      firstAuthor: ref.authors[0],
+      secondAuthor: ref.authors[1],
+      lastAuthor: ref.authors.length > 2 ? ref.authors[ref.authors.length - 1] : undefined,
+      year: ref.year || undefined,
+      publication: ref.journal || undefined,
+    }))
+  );
+
+  console.log(`[jobs] Created ${documentReferences.length} document references with parsed metadata`);
+
+  // Save where each citation occurs (page, paragraph, bounding boxes for PDFs)
+  const referenceIds = new Map(documentReferences.map((ref) => [ref.position_in_doc, ref.id]));
+  const occurrenceRows = capped.kept.flatMap((ref) => {
+    const documentReferenceId = referenceIds.get(ref.position);
+    if (!documentReferenceId) return [];
+    return ref.occurrences.map((occurrence, index) => {
+      const located = locateOccurrence(occurrence);
+      return {
+        document_id: documentId,
+        document_reference_id: documentReferenceId,
+        occurrence_index: index,
+        citation_text: located.text,
+        char_start: located.start,
+        char_end: located.end,
+        page_number: located.pageNumber,
+        paragraph_number: located.paragraph,
+        bounding_boxes: located.boxes,
+        context_text: located.context || null,
+      };
+    });
+  });
+
+  try {
+    const occurrences = await createCitationOccurrences(occurrenceRows);
+    console.log(`[jobs] Stored ${occurrences.length} citation occurrences`);
+  } catch (occurrenceError) {
+    // Locations are an enhancement; the references themselves are already saved
+    console.error('[jobs] Failed to store citation occurrences:', occurrenceError);
+  }
+
+  // Ready for review
+  await updateDocumentStatus(documentId, 'completed');
+
+  try {
+    await removeDocumentFile(filePath);
+  } catch (removeError) {
+    console.warn(`[jobs] Could not remove parsed upload ${filePath}:`, removeError);
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Test suite for the validation pipeline
+ * Resolves, screens and reviews a small document end to end against an
+ * in-memory PostgREST, fixture Crossref/OpenAlex answers and the mock LLM
+ * provider, so no database, network or model is needed.
+ */
+
+import type { HttpClient } from '@/utils/resolver';
+import type { ProcessingJob } from '@/types/database';
+
+type Row = Record<string, unknown>;
+
+// Set before the database client is first imported; it reads these on load
+process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test';
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'test';
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'test';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const DOCUMENT_ID = 'doc-1';
+
+const reference = (position: number, raw: string, extra: Row = {}): Row => ({
+  id: `ref-${position}`,
+  document_id: DOCUMENT_ID,
+  raw_citation_text: raw,
+  position_in_doc: position,
+  duplicate_of_position: null,
+  match_status: 'pending',
+  canonical_reference_id: null,
+  context_before: null,
+  context_after: null,
+  context_review_state: null,
+  context_review_provenance: null,
+  existence_score: null,
+  existence_check: null,
+  stance_counts: {},
+  ...extra,
+});
+
+const tables: Record<string, Row[]> = {
+  documents: [{ id: DOCUMENT_ID, status: 'processing', citation_report: { published_versions: [] } }],
+  document_references: [
+    reference(0, 'LeCun Y, Bengio Y, Hinton G. Deep learning. Nature. 2015;521:436-444. doi:10.1038/nature14539', {
+      first_author: 'LeCun', year: 2015, context_before: 'Deep networks learn representations', context_after: 'from raw data.',
+    }),
+    reference(1, 'LeCun, Y. et al. Deep learning. Nature 521 (2015).', { first_author: 'LeCun', year: 2015, duplicate_of_position: 0 }),
+    reference(2, 'Heinz E. Auxin transport in roots. Planta. 1999;208:1-10. doi:10.1007/s004250050096', {
+      first_author: 'Heinz', year: 1999, context_before: 'Auxin moves basipetally', context_after: 'in the root tip.',
+    }),
+    reference(3, 'Doe J. A study that was never published. J Imag Res. 2020;1:1-2. doi:10.5555/never.2020', {
+      first_author: 'Doe', year: 2020,
+    }),
+  ],
+  citation_occurrences: [
+    { id: 'occ-0', document_id: DOCUMENT_ID, document_reference_id: 'ref-0', occurrence_index: 0, citation_text: '[1]', context_text: 'Deep networks learn representations [1] from raw data.', stance: null, stance_rationale: null },
+    { id: 'occ-1', document_id: DOCUMENT_ID, document_reference_id: 'ref-2', occurrence_index: 1, citation_text: '[3]', context_text: 'Auxin moves basipetally [3] in the root tip.', stance: null, stance_rationale: null },
+  ],
+  canonical_references: [],
+  retraction_notices: [
+    { id: 'notice-1', doi: '10.1007/s004250050096', notice_type: 'correction', notice_doi: '10.1007/s00425-000-0001-x', notice_date: '2000-01-01', reason: null, source: 'crossref' },
+  ],
+  processing_jobs: [],
+  llm_output_failures: [],
+};
+
+const CROSSREF_WORKS: Record<string, Row> = {
+  '10.1038/nature14539': {
+    DOI: '10.1038/nature14539',
+    title: ['Deep learning'],
+    author: [{ given: 'Yann', family: 'LeCun' }, { given: 'Yoshua', family: 'Bengio' }, { given: 'Geoffrey', family: 'Hinton' }],
+    issued: { 'date-parts': [[2015, 5, 27]] },
+    'container-title': ['Nature'],
+  },
+  // An old Springer suffix: starts with "s" and digits but holds no ISSN
+  '10.1007/s004250050096': {
+    DOI: '10.1007/s004250050096',
+    title: ['Auxin transport in roots'],
+    author: [{ given: 'E.', family: 'Heinz' }],
+    issued: { 'date-parts': [[1999]] },
+    'container-title': ['Planta'],
+  },
+};
+
+// Every outgoing Crossref/OpenAlex request, so resumed runs can be checked for repeats
+const metadataRequests: string[] = [];
+
+const metadataHttp: HttpClient = async (url) => {
+  metadataRequests.push(url);
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  const crossrefWork = url.match(/api\.crossref\.org\/works\/([^?]+)/);
+  if (crossrefWork) {
+    const work = CROSSREF_WORKS[decodeURIComponent(crossrefWork[1])];
+    return work ? json({ message: work }) : json({ message: 'Resource not found.' }, 404);
+  }
+  if (url.includes('api.crossref.org/works?')) return json({ message: { items: [] } });
+  if (url.includes('api.openalex.org/works/')) return json({ error: 'Not found' }, 404);
+  if (url.includes('api.openalex.org/works?')) return json({ results: [] });
+  return json({ error: `unexpected request ${url}` }, 500);
+};
+
+// ---------------------------------------------------------------------------
+// In-memory PostgREST: eq/in/is filters, order, limit, to-one embeds,
+// single-row answers, insert, update and delete
+// ---------------------------------------------------------------------------
+
+let nextRowId = 1;
+
+const matchesFilters = (row: Row, params: URLSearchParams) => {
+  for (const [column, condition] of params) {
+    if (['select', 'order', 'limit', 'offset', 'columns'].includes(column)) continue;
+    const [op, ...rest] = condition.split('.');
+    const operand = rest.join('.');
+    const value = row[column] ?? null;
+    if (op === 'eq' && String(value) !== operand) return false;
+    if (op === 'is' && value !== (operand === 'null' ? null : operand === 'true')) return false;
+    if (op === 'in') {
+      const values = operand.replace(/^\(|\)$/g, '').split(',').map(v => v.replace(/^"|"$/g, ''));
+      if (!values.includes(String(value))) return false;
+    }
+  }
+  return true;
+};
+
+// "*, canonical_reference:canonical_references(*)" joins on canonical_reference_id
+const withEmbeds = (row: Row, select: string | null): Row => {
+  const embedded: Row = { ...row };
+  for (const [, alias, table] of (select ?? '').matchAll(/(\w+):(\w+)\(\*\)/g)) {
+    const key = row[`${alias}_id`];
+    embedded[alias] = key === undefined ? [] : (tables[table] ?? []).find(other => other.id === key) ?? null;
+  }
+  return embedded;
+};
+
+const fakePostgrest = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+  const method = (init?.method ?? 'GET').toUpperCase();
+  const table = url.pathname.replace(/^\/rest\/v1\//, '');
+  const rows = (tables[table] ??= []);
+  const body = init?.body ? JSON.parse(String(init.body)) : null;
+  const json = (data: unknown, status = 200) => new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+  let result: Row[];
+  if (method === 'GET') {
+    result = rows.filter(row => matchesFilters(row, url.searchParams));
+    const order = (url.searchParams.get('order') ?? '').split(',').filter(Boolean).map(term => term.split('.'));
+    result.sort((a, b) => {
+      for (const [column, direction] of order) {
+        const [x, y] = [a[column] as string | number, b[column] as string | number];
+        if (x !== y) return (x < y ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+      }
+      return 0;
+    });
+    const limit = url.searchParams.get('limit');
+    if (limit) result = result.slice(0, Number(limit));
+    result = result.map(row => withEmbeds(row, url.searchParams.get('select')));
+  } else if (method === 'POST') {
+    result = (Array.isArray(body) ? body : [body]).map((row: Row) => ({
+      id: `row-${nextRowId++}`,
+      created_at: new Date(Date.now() + nextRowId).toISOString(),
+      ...(table === 'processing_jobs' ? { attempts: 0, max_attempts: 3 } : {}),
+      ...row,
+    }));
+    rows.push(...result);
+  } else if (method === 'PATCH') {
+    result = rows.filter(row => matchesFilters(row, url.searchParams));
+    for (const row of result) Object.assign(row, body);
+  } else if (method === 'DELETE') {
+    result = rows.filter(row => matchesFilters(row, url.searchParams));
+    tables[table] = rows.filter(row => !result.includes(row));
+  } else {
+    return json({ message: `unsupported method ${method}` }, 405);
+  }
+
+  if (new Headers(init?.headers).get('Accept')?.includes('vnd.pgrst.object')) {
+    return result.length === 1 ? json(result[0]) : json({ code: 'PGRST116', message: `${result.length} rows returned` }, 406);
+  }
+  return json(result);
+};
+
+globalThis.fetch = fakePostgrest as typeof fetch;
+
+// ---------------------------------------------------------------------------
+// Acceptance tests
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+function check(name: string, input: string, expected: unknown, got: unknown) {
+  const passed = JSON.stringify(expected) === JSON.stringify(got);
+  if (!passed) failures++;
+  console.log(`${name} Test:`);
+  console.log('Input:', input);
+  console.log('Expected:', JSON.stringify(expected));
+  console.log('Got:', JSON.stringify(got));
+  console.log(passed ? '✓ PASS\n' : '✗ FAIL\n');
+}
+
+const row = (table: string, id: string) => tables[table].find(r => r.id === id) as Row;
+
+async function main() {
+  // Imported only now, after fetch and the environment point at the fakes
+  const { createCrossrefClient, createOpenAlexClient, resolveDocumentReferences } = await import('@/utils/resolver');
+  const { screenDocumentReferences } = await import('@/utils/retractions');
+  const { createMockProvider, setLlmProvider } = await import('@/utils/llm');
+  const { runJob } = await import('@/utils/jobs');
+
+  console.log('=== Validation Pipeline Acceptance Tests ===\n');
+
+  const sources = [createCrossrefClient({ http: metadataHttp }), createOpenAlexClient({ http: metadataHttp })];
+  const counts = await resolveDocumentReferences(DOCUMENT_ID, { sources, fetchArxiv: async () => null });
+
+  check('Resolver', '3 distinct references, one listed twice', { matched: 2, not_found: 1, ambiguous: 0, error: 0 }, counts);
+
+  check(
+    'Duplicate Outcome',
+    'ref-1 repeats ref-0',
+    ['matched', row('document_references', 'ref-0').canonical_reference_id, row('document_references', 'ref-0').existence_score],
+    ['ref-1'].map(id => row('document_references', id)).flatMap(r => [r.match_status, r.canonical_reference_id, r.existence_score])
+  );
+
+  const springer = row('document_references', 'ref-2').existence_details as Array<{ field: string; status: string }>;
+  check('Registered Springer DOI', '10.1007/s004250050096', 'match', springer.find(d => d.field === 'doi')?.status);
+
+  check('Unregistered DOI', '10.5555/never.2020', ['not_found', 5], ['match_status', 'existence_score'].map(c => row('document_references', 'ref-3')[c]));
+
+  // A resumed run looks up only what is pending or failed last time
+  row('document_references', 'ref-3').match_status = 'error';
+  metadataRequests.length = 0;
+  await resolveDocumentReferences(DOCUMENT_ID, { sources, fetchArxiv: async () => null, pendingOnly: true });
+  check(
+    'Resume After Source Errors',
+    'ref-3 errored, the rest resolved',
+    true,
+    metadataRequests.length > 0 && metadataRequests.every(url => !url.includes('nature14539') && !url.includes('s004250050096'))
+  );
+
+  await screenDocumentReferences(DOCUMENT_ID);
+  check('Retraction Screening', 'correction notice for 10.1007/s004250050096', 'correction', row('document_references', 'ref-2').retraction_status);
+
+  // The model answers ref-2's context review with prose, so that review fails
+  const llm = createMockProvider(request => {
+    const prompt = request.messages.map(m => m.content).join('\n');
+    if (prompt.includes('classifying why a paper cites')) {
+      return JSON.stringify({ stances: [{ passage: 1, stance: 'supporting', rationale: 'The claim rests on it.' }] });
+    }
+    if (prompt.includes('Reference Citation:')) {
+      return prompt.includes('Auxin') ? 'I cannot judge this citation.' : JSON.stringify({ score: 80, comments: 'Cited appropriately.' });
+    }
+    return 'The references are mostly sound.';
+  });
+  setLlmProvider(llm);
+
+  // Claimed as claim_processing_job would: running, one more attempt
+  const claim = (job: Row) => Object.assign(job, { status: 'running', attempts: (job.attempts as number) + 1 }) as unknown as ProcessingJob;
+  tables.processing_jobs.push({ id: 'job-verify', document_id: DOCUMENT_ID, job_type: 'verify_integrity', status: 'queued', payload: {}, attempts: 0, max_attempts: 3 });
+
+  // A spent drain deadline makes every invocation hand its remaining work to a continuation
+  for (let runs = 0; runs < 20; runs++) {
+    const job = tables.processing_jobs.find(j => j.status === 'queued');
+    if (!job) break;
+    await runJob(claim(job), 'worker-test', Date.now() - 1);
+  }
+
+  const jobs = tables.processing_jobs;
+  check(
+    'Continuation Jobs',
+    'verify_integrity past its deadline',
+    { allCompleted: true, attempts: [1], continued: true },
+    { allCompleted: jobs.every(j => j.status === 'completed'), attempts: [...new Set(jobs.map(j => j.attempts))], continued: jobs.length > 1 }
+  );
+
+  check(
+    'Review States',
+    'ref-0 answered, ref-2 unusable answer, ref-3 no context',
+    [['scored', 80], ['failed', null], ['skipped', null]],
+    ['ref-0', 'ref-2', 'ref-3'].map(id => [row('document_references', id).context_review_state, row('document_references', id).integrity_score])
+  );
+
+  check('Citation Stances', 'one occurrence each for ref-0 and ref-2', ['supporting', 'supporting'], tables.citation_occurrences.map(o => o.stance));
+
+  const document = row('documents', DOCUMENT_ID);
+  check(
+    'Document Outcome',
+    'only scored, distinct references count',
+    { status: 'completed', score: 80, review: 'The references are mostly sound.' },
+    { status: document.status, score: document.overall_integrity_score, review: document.ai_review_report }
+  );
+
+  // Classified occurrences are not sent to the model again
+  const before = llm.requests.length;
+  tables.processing_jobs.push({ id: 'job-rerun', document_id: DOCUMENT_ID, job_type: 'verify_integrity', status: 'queued', payload: {}, attempts: 0, max_attempts: 3 });
+  await runJob(claim(tables.processing_jobs[tables.processing_jobs.length - 1]), 'worker-test');
+  const stancePrompts = llm.requests.slice(before).filter(r => r.messages.some(m => m.content.includes('classifying why a paper cites')));
+  check('Stances Kept On Re-run', 'verify_integrity again over a classified document', 0, stancePrompts.length);
+}
+
+main()
+  .catch(err => {
+    failures++;
+    console.error(err);
+  })
+  .finally(() => {
+    console.log(failures === 0 ? '✓ All pipeline tests passed' : `✗ ${failures} pipeline tests failed`);
+    process.exitCode = failures === 0 ? 0 : 1;
+  });
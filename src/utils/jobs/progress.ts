@@ -0,0 +1,34 @@
+/**
+ * Job progress
+ * Handlers report the stage they are on and, for stages that walk the
+ * reference list, how many items are done. Reports are stored on the job row,
+ * where the document event stream picks them up; counts are written at most
+ * once a second so a long list does not turn into a write per reference.
+ */
+
+import { updateProcessingJobProgress } from '@/utils/database/operations';
+import type { ProcessingStage } from '@/types/database';
+
+export type ProgressReporter = (stage: ProcessingStage, done?: number, total?: number) => Promise<void>;
+
+const MIN_INTERVAL_MS = 1000;
+
+export function createProgressReporter(jobId: string): ProgressReporter {
+  let lastStage: ProcessingStage | null = null;
+  let lastWrite = 0;
+
+  return async (stage, done, total) => {
+    // A new stage and the last item of a stage are always written
+    const finished = done !== undefined && done === total;
+    if (stage === lastStage && !finished && Date.now() - lastWrite < MIN_INTERVAL_MS) return;
+
+    lastStage = stage;
+    lastWrite = Date.now();
+    try {
+      await updateProcessingJobProgress(jobId, { stage, done: done ?? null, total: total ?? null });
+    } catch (err) {
+      // Progress is informational; the job carries on without it
+      console.error(`[jobs] Failed to record progress for ${jobId}:`, err);
+    }
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Stage labels
+ * What the progress bar says for each job stage. Kept apart from the worker
+ * so client components can import it.
+ */
+
+import type { ProcessingStage } from '@/types/database';
+
+export const STAGE_LABELS: Record<ProcessingStage, string> = {
+  extracting: 'Extracting references',
+  storing: 'Saving references',
+  resolving: 'Resolving references',
+  screening: 'Screening for retractions',
+  reviewing: 'Validating citing contexts',
+  classifying: 'Classifying citation intent',
+  summarizing: 'Writing the overall review',
+};
+
+// Counted stages, as in "Validated 14/52 references"
+const COUNTED_LABELS: Partial<Record<ProcessingStage, string>> = {
+  resolving: 'Resolved',
+  reviewing: 'Validated',
+  classifying: 'Classified',
+};
+
+// Rough share of the whole run each stage takes, so the bar moves steadily
+// across stages instead of refilling for each one
+const STAGE_SPANS: Record<ProcessingStage, [number, number]> = {
+  extracting: [0, 0.8],
+  storing: [0.8, 1],
+  resolving: [0, 0.4],
+  screening: [0.4, 0.45],
+  reviewing: [0.45, 0.8],
+  classifying: [0.8, 0.95],
+  summarizing: [0.95, 1],
+};
+
+/**
+ * "Validated 14/52 references" for counted stages, the stage label otherwise
+ */
+export function describeStage(stage: ProcessingStage, done: number | null, total: number | null): string {
+  const counted = COUNTED_LABELS[stage];
+  return counted && done !== null && total !== null ? `${counted} ${done}/${total} references` : STAGE_LABELS[stage];
+}
+
+/**
+ * Overall completion between 0 and 1 for a stage and its count
+ */
+export function stageFraction(stage: ProcessingStage, done: number | null, total: number | null): number {
+  const [start, end] = STAGE_SPANS[stage];
+  const within = done !== null && total ? Math.min(1, done / total) : 0;
+  return start + (end - start) * within;
+}
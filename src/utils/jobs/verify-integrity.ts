@@ -0,0 +1,202 @@
+/**
+ * verify_integrity job
+ * Reviews each citing context with the model, classifies citation stances,
+ * writes the overall review and score, and marks the document completed.
+ * References whose context review is already scored with the current prompt
+ * version are skipped, so a retried attempt resumes and a re-run of outdated
+ * reviews only repeats those. A long document is worked through over several
+ * jobs: each stops after INVOCATION_BUDGET_MS and queues a continuation that
+ * picks up where it left off.
+ */
+
+import {
+  calculateDocumentIntegrityScore,
+  createProcessingJob,
+  getDocumentReferences,
+  updateDocumentReferenceContextIntegrity,
+  updateDocumentStatus,
+} from '@/utils/database/operations';
+import { completeStructured, getLlmProvider, type LlmProvider } from '@/utils/llm';
+import { CONTEXT_REVIEW, DOCUMENT_REVIEW, isCurrentPrompt, promptProvenance, renderPrompt } from '@/utils/prompts';
+import { classifyDocumentStances, describeStanceSummary, STANCE_LABELS, STANCES } from '@/utils/verification/stance';
+import type { ProgressReporter } from '@/utils/jobs/progress';
+import type { DocumentReference, ProcessingJob, ProcessingJobPayload, ReviewProvenance, ReviewState } from '@/types/database';
+
+interface ContextReview {
+  state: ReviewState;
+  score: number | null; // 0-100, only when scored
+  comments: string | null;
+  reason: string | null; // why there is no score otherwise
+  provenance: ReviewProvenance | null; // null when no prompt was sent
+}
+
+// Work an invocation takes on before handing the rest to a continuation job;
+// well inside the serverless time limit, and a continuation is a new job, so
+// a long document does not use up the attempts of the first one
+const INVOCATION_BUDGET_MS = 120_000;
+
+export async function runVerifyIntegrity(job: ProcessingJob, progress: ProgressReporter, deadline?: number): Promise<void> {
+  const documentId = job.document_id;
+  const stopAt = Math.min(deadline ?? Infinity, Date.now() + INVOCATION_BUDGET_MS);
+  const reviewFrom = job.payload.review_from ?? 0;
+  const llm = getLlmProvider();
+  if (!llm) {
+    throw new Error('LLM provider not configured');
+  }
+
+  const references = await getDocumentReferences(documentId);
+  if (references.length === 0) {
+    throw new Error('No references found for this document');
+  }
+
+  console.log(`[jobs] Found ${references.length} references to validate`);
+  await progress('reviewing', 0, references.length);
+
+  let reviewed = 0;
+  for (const [index, docRef] of references.entries()) {
+    // Earlier invocations of this validation already tried the references before reviewFrom
+    const done = index < reviewFrom
+      || (docRef.context_review_state === 'scored' && isCurrentPrompt(docRef.context_review_provenance, CONTEXT_REVIEW));
+    if (done) {
+      await progress('reviewing', index + 1, references.length);
+      continue;
+    }
+    if (reviewed > 0 && Date.now() >= stopAt) {
+      await queueContinuation(job, { review_from: index });
+      return;
+    }
+
+    try {
+      const review = await reviewContext(docRef, llm);
+      await updateDocumentReferenceContextIntegrity(docRef.id, {
+        state: review.state,
+        reason: review.reason,
+        score: review.score,
+        review: review.comments,
+        // Only a scored review gives the reference an integrity score; the others say why not
+        integrityScore: review.state === 'scored' ? review.score : null,
+        aiReview: review.comments ?? review.reason,
+        provenance: review.provenance,
+      });
+    } catch (aiError) {
+      console.error(`[jobs] AI validation failed for reference ${docRef.id}:`, aiError);
+    }
+    reviewed++;
+    await progress('reviewing', index + 1, references.length);
+  }
+
+  if (reviewed > 0 && Date.now() >= stopAt) {
+    await queueContinuation(job, { review_from: references.length });
+    return;
+  }
+
+  // Classify why each citation cites its work (non-fatal)
+  let stanceDescription = '';
+  await progress('classifying');
+  try {
+    const run = await classifyDocumentStances(documentId, llm, {
+      from: job.payload.stance_from ?? 0,
+      deadline: stopAt,
+      onProgress: (done, total) => progress('classifying', done, total),
+    });
+    if (run.next !== null) {
+      await queueContinuation(job, { review_from: references.length, stance_from: run.next });
+      return;
+    }
+    stanceDescription = describeStanceSummary(run.summary);
+  } catch (stanceError) {
+    console.error('[jobs] Stance classification failed:', stanceError);
+  }
+
+  // Generate overall AI review summary
+  let overallAiReview: string | null = null;
+  let overallProvenance: ReviewProvenance | null = null;
+  await progress('summarizing');
+  try {
+    overallAiReview = await summarizeReviews(await getDocumentReferences(documentId), stanceDescription, llm);
+    overallProvenance = promptProvenance(DOCUMENT_REVIEW, llm);
+    console.log(`[jobs] Generated overall AI review (${overallAiReview.length} chars)`);
+  } catch (summaryError) {
+    console.error('[jobs] Error generating overall AI review:', summaryError);
+  }
+
+  const overallScore = await calculateDocumentIntegrityScore(documentId);
+  console.log(`[jobs] Overall document integrity score: ${overallScore}`);
+
+  // null clears the score of an earlier validation when nothing could be scored this time
+  await updateDocumentStatus(documentId, 'completed', overallScore, overallAiReview, overallProvenance);
+}
+
+// The rest of the validation runs as a new job, so this one completes and its attempts are not spent
+async function queueContinuation(job: ProcessingJob, resume: Pick<ProcessingJobPayload, 'review_from' | 'stance_from'>): Promise<void> {
+  const next = await createProcessingJob(job.document_id, 'verify_integrity', { ...job.payload, ...resume });
+  console.log(`[jobs] Queued verify_integrity ${next.id} to continue document ${job.document_id}`);
+}
+
+async function reviewContext(docRef: DocumentReference, llm: LlmProvider): Promise<ContextReview> {
+  if (!docRef.context_before && !docRef.context_after) {
+    console.log(`[jobs] Skipping context integrity check for ${docRef.id} (no context)`);
+    return unscored('skipped', 'Not cited in the document body, so there is no context to review');
+  }
+
+  const context = `${docRef.context_before || ''} [CITATION: ${docRef.raw_citation_text}] ${docRef.context_after || ''}`;
+
+  try {
+    const answer = await completeStructured(llm, {
+      task: CONTEXT_REVIEW.name,
+      schema: CONTEXT_REVIEW.schema,
+      documentId: docRef.document_id,
+      messages: renderPrompt(CONTEXT_REVIEW, { citation: docRef.raw_citation_text, context }),
+    });
+
+    const score = Math.round(answer.score);
+    console.log(`[jobs] Context integrity for ${docRef.id}: ${score}/100`);
+    return { state: 'scored', score, comments: answer.comments.trim() || null, reason: null, provenance: promptProvenance(CONTEXT_REVIEW, llm) };
+  } catch (contextError) {
+    console.error('[jobs] Context integrity check failed:', contextError);
+    return unscored(
+      'failed',
+      `No usable answer from the model: ${contextError instanceof Error ? contextError.message : String(contextError)}`,
+      promptProvenance(CONTEXT_REVIEW, llm)
+    );
+  }
+}
+
+function unscored(state: Exclude<ReviewState, 'scored'>, reason: string, provenance: ReviewProvenance | null = null): ContextReview {
+  return { state, score: null, comments: null, reason, provenance };
+}
+
+async function summarizeReviews(references: DocumentReference[], stanceDescription: string, llm: LlmProvider): Promise<string> {
+  const reviewsSummary = references
+    .map((ref, idx) => {
+      let summary = `\n${idx + 1}. ${ref.raw_citation_text}\n`;
+
+      if (ref.existence_score !== null) {
+        summary += `   Existence Score: ${ref.existence_score}/100\n`;
+        if (ref.existence_check) {
+          summary += `   Existence Check: ${ref.existence_check}\n`;
+        }
+      }
+
+      if (ref.context_integrity_score !== null) {
+        summary += `   Context Integrity Score: ${ref.context_integrity_score}/100\n`;
+        if (ref.context_integrity_review) {
+          summary += `   Context Integrity Review: ${ref.context_integrity_review}\n`;
+        }
+      } else if (ref.context_review_state === 'failed') {
+        summary += `   Context Integrity: not assessed (${ref.context_review_reason ?? 'review failed'})\n`;
+      }
+
+      const stances = STANCES.filter(stance => ref.stance_counts?.[stance]);
+      if (stances.length > 0) {
+        summary += `   Cited As: ${stances.map(stance => `${STANCE_LABELS[stance]} ×${ref.stance_counts[stance]}`).join(', ')}\n`;
+      }
+
+      return summary;
+    })
+    .join('\n');
+
+  return llm.complete({
+    messages: renderPrompt(DOCUMENT_REVIEW, { reviews: reviewsSummary, stanceDescription }),
+  });
+}
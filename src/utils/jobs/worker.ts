@@ -0,0 +1,132 @@
+/**
+ * Job worker
+ * Claims due jobs from processing_jobs and runs a few at a time. A failed
+ * attempt goes back on the queue with exponential backoff until the job runs
+ * out of attempts. A worker that dies mid-job stops renewing its lease, and
+ * the next drain claims the job again; handlers skip work already stored.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  claimProcessingJob,
+  renewProcessingJobLease,
+  updateDocumentStatus,
+  updateProcessingJobStatus,
+} from '@/utils/database/operations';
+import { runMatchCanonical } from '@/utils/jobs/match-canonical';
+import { runParseReferences } from '@/utils/jobs/parse-references';
+import { runVerifyIntegrity } from '@/utils/jobs/verify-integrity';
+import { createProgressReporter, type ProgressReporter } from '@/utils/jobs/progress';
+import type { ProcessingJob, ProcessingJobType } from '@/types/database';
+
+export interface DrainOptions {
+  concurrency?: number; // jobs run at once; defaults to JOB_CONCURRENCY, then 2
+  budgetMs?: number; // no new job is claimed after this long
+}
+
+// deadline is when the drain stops claiming jobs; handlers that can split their work stop near it
+const HANDLERS: Record<ProcessingJobType, (job: ProcessingJob, progress: ProgressReporter, deadline: number) => Promise<void>> = {
+  parse_references: runParseReferences,
+  match_canonical: runMatchCanonical,
+  verify_integrity: runVerifyIntegrity,
+};
+
+// A running job whose lease is this old is taken to be orphaned; the lease
+// is renewed three times per period while the handler runs
+const LEASE_SECONDS = 120;
+
+// Retry n waits about BASE * 2^(n-1), capped, with jitter so jobs that failed
+// together (a source outage) do not all come back at once
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 15 * 60_000;
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_BUDGET_MS = 240_000;
+
+/**
+ * Run due jobs until the queue is empty or the time budget is spent; returns how many ran.
+ * Jobs a handler queues (match_canonical queues verify_integrity) run in the same drain.
+ */
+export async function drainJobs(options: DrainOptions = {}): Promise<number> {
+  const concurrency = options.concurrency ?? jobConcurrency();
+  const deadline = Date.now() + (options.budgetMs ?? DEFAULT_BUDGET_MS);
+  const workerId = `worker-${randomUUID()}`;
+  let processed = 0;
+
+  const lane = async () => {
+    while (Date.now() < deadline) {
+      let job: ProcessingJob | null;
+      try {
+        job = await claimProcessingJob(workerId, LEASE_SECONDS);
+      } catch (err) {
+        console.error('[jobs] Failed to claim a job:', err);
+        return;
+      }
+      if (!job) return;
+
+      try {
+        await runJob(job, workerId, deadline);
+      } catch (err) {
+        // Recording the outcome failed; the lapsed lease hands the job to a later drain
+        console.error(`[jobs] Lost track of ${job.job_type} ${job.id}:`, err);
+      }
+      processed++;
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, lane));
+  if (processed > 0) {
+    console.log(`[jobs] Worker ${workerId} ran ${processed} jobs`);
+  }
+  return processed;
+}
+
+/**
+ * Run one claimed job and record whether it completed, will be retried or failed for good
+ */
+export async function runJob(job: ProcessingJob, workerId: string, deadline = Date.now() + DEFAULT_BUDGET_MS): Promise<void> {
+  // Claimed again after the worker running its last attempt died
+  if (job.attempts > job.max_attempts) {
+    await failJob(job, job.error_message ?? `Worker stopped during attempt ${job.max_attempts} of ${job.max_attempts}`);
+    return;
+  }
+
+  console.log(`[jobs] Running ${job.job_type} ${job.id} for document ${job.document_id} (attempt ${job.attempts}/${job.max_attempts})`);
+  const heartbeat = setInterval(() => {
+    renewProcessingJobLease(job.id, workerId).catch(err => console.error(`[jobs] Failed to renew lease on ${job.id}:`, err));
+  }, (LEASE_SECONDS * 1000) / 3);
+
+  try {
+    await HANDLERS[job.job_type](job, createProgressReporter(job.id), deadline);
+    clearInterval(heartbeat);
+    await updateProcessingJobStatus(job.id, 'completed');
+    console.log(`[jobs] Completed ${job.job_type} ${job.id}`);
+  } catch (err) {
+    clearInterval(heartbeat);
+    const message = err instanceof Error ? err.message : String(err);
+
+    if (job.attempts < job.max_attempts) {
+      const delay = retryDelay(job.attempts);
+      console.warn(`[jobs] ${job.job_type} ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+      await updateProcessingJobStatus(job.id, 'queued', message, new Date(Date.now() + delay));
+    } else {
+      await failJob(job, message);
+    }
+  }
+}
+
+async function failJob(job: ProcessingJob, message: string): Promise<void> {
+  console.error(`[jobs] ${job.job_type} ${job.id} failed after ${job.max_attempts} attempts: ${message}`);
+  await updateProcessingJobStatus(job.id, 'failed', message);
+  await updateDocumentStatus(job.document_id, 'failed');
+}
+
+function retryDelay(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+function jobConcurrency(): number {
+  const configured = Number(process.env.JOB_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+}
@@ -0,0 +1,49 @@
+/**
+ * LLM configuration
+ * Read from the environment:
+ *   LLM_PROVIDER     openai (default) | azure | local | mock
+ *   LLM_MODEL        model, or deployment name for Azure (default gpt-4o-mini)
+ *   LLM_TEMPERATURE  default 0.4
+ *   LLM_TIMEOUT_MS   per request, default 60000
+ *   LLM_API_KEY      falls back to OPENAI_API_KEY / AZURE_OPENAI_API_KEY
+ *   LLM_BASE_URL     local server ("http://localhost:11434/v1") or Azure endpoint
+ *                    (falls back to AZURE_OPENAI_ENDPOINT)
+ *   LLM_API_VERSION  Azure only (falls back to AZURE_OPENAI_API_VERSION)
+ */
+
+import type { LlmConfig, LlmProviderName } from '@/utils/llm/provider';
+
+const PROVIDERS: LlmProviderName[] = ['openai', 'azure', 'local', 'mock'];
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_TEMPERATURE = 0.4;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+export function loadLlmConfig(env: Record<string, string | undefined> = process.env): LlmConfig {
+  const provider = (env.LLM_PROVIDER?.trim().toLowerCase() || 'openai') as LlmProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}": expected one of ${PROVIDERS.join(', ')}`);
+  }
+
+  const azure = provider === 'azure';
+
+  return {
+    provider,
+    model: env.LLM_MODEL?.trim() || (azure ? env.AZURE_OPENAI_DEPLOYMENT?.trim() : undefined) || DEFAULT_MODEL,
+    temperature: numberSetting(env.LLM_TEMPERATURE, DEFAULT_TEMPERATURE, 'LLM_TEMPERATURE'),
+    timeoutMs: numberSetting(env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS, 'LLM_TIMEOUT_MS'),
+    apiKey: env.LLM_API_KEY || (azure ? env.AZURE_OPENAI_API_KEY : env.OPENAI_API_KEY) || null,
+    baseUrl: env.LLM_BASE_URL || (azure ? env.AZURE_OPENAI_ENDPOINT : undefined) || null,
+    apiVersion: azure ? env.LLM_API_VERSION || env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION : null,
+  };
+}
+
+function numberSetting(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
@@ -0,0 +1,50 @@
+/**
+ * LLM access
+ * getLlmProvider() returns the backend configured in the environment (see
+ * config.ts), or null when none is usable, e.g. no OpenAI key. Tests swap in
+ * a mock with setLlmProvider(). Prompts that expect JSON go through
+ * completeStructured(), which validates the answer against a schema.
+ */
+
+import { loadLlmConfig } from '@/utils/llm/config';
+import { createMockProvider } from '@/utils/llm/mock';
+import { createOpenAIProvider } from '@/utils/llm/openai';
+import type { LlmConfig, LlmProvider } from '@/utils/llm/provider';
+
+export type { CompletionRequest, LlmConfig, LlmMessage, LlmProvider, LlmProviderName, ResponseSchema } from '@/utils/llm/provider';
+export type { MockLlmProvider, MockResponder } from '@/utils/llm/mock';
+export { loadLlmConfig } from '@/utils/llm/config';
+export { createMockProvider } from '@/utils/llm/mock';
+export { completeStructured } from '@/utils/llm/structured';
+export type { StructuredRequest } from '@/utils/llm/structured';
+
+// undefined: not built yet; null: not configured
+let provider: LlmProvider | null | undefined;
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  return config.provider === 'mock' ? createMockProvider() : createOpenAIProvider(config);
+}
+
+/**
+ * The configured provider, built on first use
+ */
+export function getLlmProvider(): LlmProvider | null {
+  if (provider === undefined) {
+    try {
+      const config = loadLlmConfig();
+      provider = createLlmProvider(config);
+      console.log(`[llm] Using ${provider.name} provider (${provider.model})`);
+    } catch (err) {
+      console.warn('[llm] No LLM provider available:', err instanceof Error ? err.message : err);
+      provider = null;
+    }
+  }
+  return provider;
+}
+
+/**
+ * Replace the configured provider; pass undefined to rebuild it from the environment
+ */
+export function setLlmProvider(next: LlmProvider | null | undefined): void {
+  provider = next;
+}
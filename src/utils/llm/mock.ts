@@ -0,0 +1,42 @@
+/**
+ * Mock provider
+ * Answers without any network call so the whole pipeline can run in tests
+ * and offline. Pass a responder to script answers; the default one returns
+ * a fixed score and review.
+ */
+
+import type { CompletionRequest, LlmProvider } from '@/utils/llm/provider';
+
+export type MockResponder = (request: CompletionRequest) => string | Promise<string>;
+
+export interface MockLlmProvider extends LlmProvider {
+  requests: CompletionRequest[]; // every request received, oldest first
+}
+
+// Carries the fields every JSON prompt asks for, with a score inside each
+// prompt's scale (1-10 and 0-100)
+const DEFAULT_JSON = JSON.stringify({
+  score: 5,
+  justification: 'Mock review: no model was consulted.',
+  comments: 'Mock review: no model was consulted.',
+  quote: null,
+  stances: [],
+});
+const DEFAULT_TEXT = 'Mock summary: no model was consulted.';
+
+export function createMockProvider(respond?: MockResponder): MockLlmProvider {
+  const requests: CompletionRequest[] = [];
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    temperature: 0,
+    requests,
+
+    async complete(request) {
+      requests.push(request);
+      if (respond) return respond(request);
+      return request.json || request.schema ? DEFAULT_JSON : DEFAULT_TEXT;
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * OpenAI-style backends
+ * OpenAI itself, Azure OpenAI and local servers that speak the same chat
+ * completions API (Ollama, llama.cpp's server, vLLM) share one client; only
+ * the endpoint and credentials differ.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import type { CompletionRequest, LlmConfig, LlmProvider } from '@/utils/llm/provider';
+
+// Local servers ignore the key, but the SDK refuses to start without one
+const LOCAL_API_KEY = 'local';
+
+export function createOpenAIProvider(config: LlmConfig): LlmProvider {
+  const client = createClient(config);
+
+  return {
+    name: config.provider,
+    model: config.model,
+    temperature: config.temperature,
+
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages: request.messages,
+        temperature: config.temperature,
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        ...responseFormat(request),
+      });
+
+      const text = completion.choices[0]?.message?.content?.trim();
+      if (!text) {
+        throw new Error(`${config.provider} returned an empty completion (finish reason: ${completion.choices[0]?.finish_reason ?? 'none'})`);
+      }
+      return text;
+    },
+  };
+}
+
+// Structured outputs when a schema is given; servers that do not support
+// them fall back to the JSON instructions in the prompt
+function responseFormat(request: CompletionRequest) {
+  if (request.schema) {
+    return {
+      response_format: {
+        type: 'json_schema' as const,
+        json_schema: { name: request.schema.name, schema: request.schema.schema, strict: true },
+      },
+    };
+  }
+  return request.json ? { response_format: { type: 'json_object' as const } } : {};
+}
+
+function createClient(config: LlmConfig): OpenAI {
+  const common = { timeout: config.timeoutMs, maxRetries: 2 };
+
+  switch (config.provider) {
+    case 'azure':
+      if (!config.apiKey || !config.baseUrl) {
+        throw new Error('Azure OpenAI needs an API key and endpoint (AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT)');
+      }
+      return new AzureOpenAI({
+        ...common,
+        apiKey: config.apiKey,
+        endpoint: config.baseUrl,
+        deployment: config.model,
+        apiVersion: config.apiVersion ?? undefined,
+      });
+
+    case 'local':
+      if (!config.baseUrl) {
+        throw new Error('A local LLM server needs LLM_BASE_URL, e.g. http://localhost:11434/v1');
+      }
+      return new OpenAI({ ...common, apiKey: config.apiKey ?? LOCAL_API_KEY, baseURL: config.baseUrl });
+
+    default:
+      if (!config.apiKey) {
+        throw new Error('OpenAI needs an API key (OPENAI_API_KEY or LLM_API_KEY)');
+      }
+      return new OpenAI({ ...common, apiKey: config.apiKey, baseURL: config.baseUrl ?? undefined });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * LLM provider interface
+ * Every model call in the app goes through one of these, so the backend
+ * (OpenAI, Azure OpenAI, a local OpenAI-compatible server or the mock used in
+ * tests) is a configuration choice rather than a code change.
+ */
+
+export type LlmProviderName = 'openai' | 'azure' | 'local' | 'mock';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON schema an answer must match, for backends with structured outputs
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: LlmMessage[];
+  maxTokens?: number;
+  json?: boolean; // ask for a JSON object; backends without JSON mode still get the prompt's instructions
+  schema?: ResponseSchema; // ask for JSON matching the schema; implies json
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  temperature: number;
+  /** Text of the first choice; throws when the backend fails or returns nothing */
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string; // deployment name for Azure
+  temperature: number;
+  timeoutMs: number;
+  apiKey: string | null;
+  baseUrl: string | null; // local servers: "http://localhost:11434/v1"; Azure: the resource endpoint
+  apiVersion: string | null; // Azure only
+}
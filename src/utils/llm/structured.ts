@@ -0,0 +1,90 @@
+/**
+ * Structured completions
+ * Asks for JSON matching a zod schema and validates the answer. An answer
+ * that does not parse or validate is shown back to the model with what was
+ * wrong, up to MAX_REPAIRS times; every rejected answer is recorded in
+ * llm_output_failures.
+ */
+
+import { z } from 'zod';
+import { recordLlmOutputFailure } from '@/utils/database/operations';
+import type { LlmMessage, LlmProvider } from '@/utils/llm/provider';
+
+export interface StructuredRequest<T> {
+  task: string; // names the prompt in logs and failure records, e.g. 'context_review'
+  schema: z.ZodType<T>;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  documentId?: string | null; // ties recorded failures to a document
+}
+
+// Repair requests after the first answer, so at most three answers per call
+const MAX_REPAIRS = 2;
+
+// Rejected answers are stored up to this length
+const OUTPUT_CHARS = 4000;
+
+/**
+ * The model's answer, validated against the schema; throws when the call
+ * fails or no answer validates within the repair attempts
+ */
+export async function completeStructured<T>(llm: LlmProvider, request: StructuredRequest<T>): Promise<T> {
+  const schema = { name: request.task, schema: toResponseSchema(request.schema) };
+  const messages = [...request.messages];
+  const attempts = MAX_REPAIRS + 1;
+  let problem = '';
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const text = await llm.complete({ messages, maxTokens: request.maxTokens, schema });
+    const result = validate(text, request.schema);
+    if (result.ok) {
+      if (attempt > 1) {
+        console.log(`[llm] ${request.task} answer repaired on attempt ${attempt}`);
+      }
+      return result.value;
+    }
+
+    problem = result.problem;
+    console.warn(`[llm] ${request.task} answer ${attempt}/${attempts} rejected: ${problem}`);
+    await recordLlmOutputFailure({
+      task: request.task,
+      provider: llm.name,
+      model: llm.model,
+      attempt,
+      exhausted: attempt === attempts,
+      error: problem,
+      output: text.slice(0, OUTPUT_CHARS),
+      document_id: request.documentId ?? null,
+    }).catch(err => console.warn('[llm] Could not record the rejected answer:', err instanceof Error ? err.message : err));
+
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: `That answer is not valid: ${problem}\nReply again with only a JSON object in the requested format.` }
+    );
+  }
+
+  throw new Error(`No valid answer after ${attempts} attempts: ${problem}`);
+}
+
+function validate<T>(text: string, schema: z.ZodType<T>): { ok: true; value: T } | { ok: false; problem: string } {
+  let json: unknown;
+  try {
+    // Local models without structured outputs sometimes fence their JSON
+    json = JSON.parse(text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, ''));
+  } catch (err) {
+    return { ok: false, problem: `not JSON (${err instanceof Error ? err.message : String(err)})` };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (parsed.success) return { ok: true, value: parsed.data };
+
+  const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'answer'}: ${issue.message}`);
+  return { ok: false, problem: issues.join('; ') };
+}
+
+// The JSON schema backends are given; they take the schema body without its $schema tag
+function toResponseSchema(schema: z.ZodType): Record<string, unknown> {
+  const body: Record<string, unknown> = { ...z.toJSONSchema(schema) };
+  delete body.$schema;
+  return body;
+}
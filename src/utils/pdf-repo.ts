@@ -1,6 +1,9 @@
 import fs from 'fs';
 import path from 'path';
-import { extractText } from 'unpdf';
+import { extractPdfLayout } from '@/utils/ingestion/pdf';
+
+const PDF_FETCH_TIMEOUT_MS = 30_000;
+const MAX_PDF_BYTES = 25 * 1024 * 1024;
 
 /**
  * Get list of available PDFs in the papers folder
@@ -36,18 +39,9 @@ export async function extractPdfSummary(fileName: string): Promise<string | null
     }
 
     // Extract PDF text
-    const buffer = fs.readFileSync(filePath);
-    const uint8Array = new Uint8Array(buffer);
-    const result = await extractText(uint8Array);
-    // unpdf returns {totalPages: number, text: string[]} - join pages into single string
-    const rawText = Array.isArray(result?.text) ? result.text.join('\n') : (typeof result === 'string' ? result : '');
-
-    if (!rawText.trim()) {
-      return null;
-    }
+    const { text } = await extractPdfLayout(fs.readFileSync(filePath));
 
     // Extract abstract - look for "Abstract" section
-    const text = rawText.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F]/g, ' ');
     const lower = text.toLowerCase();
     
     const abstractIndex = lower.indexOf('abstract');
@@ -95,6 +89,59 @@ export async function extractPdfSummary(fileName: string): Promise<string | null
   }
 }
 
+/**
+ * Full text of a PDF in the repo, for claim verification
+ */
+export async function extractPdfFullText(fileName: string): Promise<string | null> {
+  const papersPath = path.join(process.cwd(), 'public', 'papers');
+  const filePath = path.join(papersPath, fileName);
+
+  // Security check: ensure file is within papers folder
+  if (!path.resolve(filePath).startsWith(path.resolve(papersPath)) || !fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const { text } = await extractPdfLayout(fs.readFileSync(filePath));
+    return text;
+  } catch (err) {
+    console.error('Error extracting PDF full text:', err);
+    return null;
+  }
+}
+
+/**
+ * Download a PDF (e.g. from arXiv) and return its full text
+ */
+export async function fetchPdfFullText(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(PDF_FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      console.error(`Error fetching PDF ${url}: ${response.status}`);
+      return null;
+    }
+
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > MAX_PDF_BYTES) {
+      console.error(`PDF ${url} is too large for full-text review (${declared} bytes)`);
+      await response.body?.cancel();
+      return null;
+    }
+
+    const buffer = await readWithinLimit(response, MAX_PDF_BYTES);
+    if (!buffer) {
+      console.error(`PDF ${url} is too large for full-text review (over ${MAX_PDF_BYTES} bytes)`);
+      return null;
+    }
+
+    const { text } = await extractPdfLayout(buffer);
+    return text;
+  } catch (err) {
+    console.error('Error fetching PDF full text:', err);
+    return null;
+  }
+}
+
 /**
  * Find matching PDF in repo for a reference
  * Only returns a match if reference keywords actually match the paper
@@ -149,3 +196,26 @@ export function findMatchingPdf(reference: string): string | null {
   );
   return null;
 }
+
+// Read the body in chunks, giving up once it passes the limit; the
+// Content-Length header may be missing or wrong
+async function readWithinLimit(response: Response, limit: number): Promise<Buffer | null> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
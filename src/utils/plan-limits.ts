@@ -0,0 +1,35 @@
+import type { UserPlan } from '@/types/database';
+
+type PlanType = UserPlan['plan_type'];
+
+/**
+ * References processed per document for users without a plan row. Matches
+ * the user_plans.reference_cap column default given to new (free) plans.
+ */
+export const DEFAULT_REFERENCE_CAP = 50;
+
+export interface ReferenceCap {
+  limit: number | null; // null = every parsed reference is processed
+  planType: PlanType;
+  reason: string | null; // recorded on skipped entries when the cap applies
+}
+
+/**
+ * Resolve the per-document reference cap for a user's plan from
+ * user_plans.reference_cap (null there means uncapped). Users without a
+ * plan row are treated as free users with DEFAULT_REFERENCE_CAP.
+ */
+export function getReferenceCap(
+  plan: Pick<UserPlan, 'plan_type' | 'reference_cap'> | null
+): ReferenceCap {
+  const planType: PlanType = plan?.plan_type ?? 'free';
+  const limit = plan ? plan.reference_cap : DEFAULT_REFERENCE_CAP;
+
+  return {
+    limit,
+    planType,
+    reason: limit === null
+      ? null
+      : `Your plan processes up to ${limit} references per document`,
+  };
+}
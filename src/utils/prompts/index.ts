@@ -0,0 +1,79 @@
+/**
+ * Prompt registry
+ * Every prompt the app sends, by name and version (templates.ts). A stored
+ * review records the template version and model settings it was made with
+ * (ReviewProvenance), so a score can be explained and reviews made with an
+ * outdated version can be found and re-run.
+ */
+
+import type { z } from 'zod';
+import type { LlmMessage, LlmProvider } from '@/utils/llm';
+import type { ReviewProvenance } from '@/types/database';
+import {
+  ABSTRACT_REVIEW,
+  CITATION_STANCE,
+  CONTEXT_REVIEW,
+  DOCUMENT_REVIEW,
+  FULL_TEXT_REVIEW,
+  REFERENCE_SUMMARY,
+} from '@/utils/prompts/templates';
+
+export type PromptName =
+  | 'abstract_review'
+  | 'full_text_review'
+  | 'context_review'
+  | 'citation_stance'
+  | 'document_review'
+  | 'reference_summary';
+
+export interface PromptTemplate<V> {
+  name: PromptName;
+  version: number; // bump on any change to the wording or the answer schema
+  system: string | null;
+  render: (vars: V) => string;
+}
+
+// A prompt whose answer is JSON matching the schema
+export interface StructuredPromptTemplate<V, A> extends PromptTemplate<V> {
+  schema: z.ZodType<A>;
+}
+
+export * from '@/utils/prompts/templates';
+
+export const PROMPTS = {
+  abstract_review: ABSTRACT_REVIEW,
+  full_text_review: FULL_TEXT_REVIEW,
+  context_review: CONTEXT_REVIEW,
+  citation_stance: CITATION_STANCE,
+  document_review: DOCUMENT_REVIEW,
+  reference_summary: REFERENCE_SUMMARY,
+} satisfies Record<PromptName, PromptTemplate<never>>;
+
+/**
+ * The chat messages for a template: its system prompt, if any, then the rendered user prompt
+ */
+export function renderPrompt<V>(template: PromptTemplate<V>, vars: V): LlmMessage[] {
+  const prompt: LlmMessage = { role: 'user', content: template.render(vars) };
+  return template.system ? [{ role: 'system', content: template.system }, prompt] : [prompt];
+}
+
+/**
+ * How a review made now with the template and provider is recorded
+ */
+export function promptProvenance(template: PromptTemplate<never>, llm: LlmProvider): ReviewProvenance {
+  return {
+    method: template.name,
+    version: template.version,
+    provider: llm.name,
+    model: llm.model,
+    temperature: llm.temperature,
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether a stored review was made with the current version of the template
+ */
+export function isCurrentPrompt(provenance: ReviewProvenance | null, template: PromptTemplate<never>): boolean {
+  return provenance?.method === template.name && provenance.version === template.version;
+}
@@ -0,0 +1,17 @@
+/**
+ * Provenance labels
+ * The line shown under a stored review saying how it was made. Kept apart
+ * from the registry so client components can import it.
+ */
+
+import type { ReviewProvenance } from '@/types/database';
+
+/**
+ * "context_review v2 · gpt-4o-mini (openai), temperature 0.4 · 2026-03-14"
+ */
+export function describeProvenance(provenance: ReviewProvenance): string {
+  const made = provenance.model
+    ? `${provenance.model} (${provenance.provider}), temperature ${provenance.temperature}`
+    : 'rule-based, no model';
+  return `${provenance.method} v${provenance.version} · ${made} · ${provenance.generated_at.slice(0, 10)}`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Prompt templates
+ * The text of every prompt, with the schema of its answer where the answer
+ * is JSON. Changing either means bumping the template's version.
+ */
+
+import { z } from 'zod';
+import type { PromptTemplate, StructuredPromptTemplate } from '@/utils/prompts';
+
+export interface AbstractReviewVars {
+  reference: string;
+  citingContext: string;
+  abstract: string;
+}
+
+export interface FullTextReviewVars {
+  reference: string;
+  citingContext: string;
+  passages: string[]; // most relevant first
+}
+
+export interface ContextReviewVars {
+  citation: string;
+  context: string; // with the citation marked in it
+}
+
+export interface CitationStanceVars {
+  reference: string;
+  passages: Array<{ citation: string; context: string }>;
+}
+
+export interface DocumentReviewVars {
+  reviews: string; // one numbered block per reference
+  stanceDescription: string; // "cites 12 works as background, ..." or empty
+}
+
+export interface ReferenceSummaryVars {
+  reviews: Array<{ score: number; justification: string }>;
+}
+
+export const ABSTRACT_REVIEW: StructuredPromptTemplate<AbstractReviewVars, { score: number; justification: string }> = {
+  name: 'abstract_review',
+  version: 1,
+  system: null,
+  schema: z.object({
+    score: z.number().min(1).max(10),
+    justification: z.string(),
+  }),
+  render: ({ reference, citingContext, abstract }) => `You are a paper reviewer. Your job is to assess if a reference used in a paper is accurate and holds the spirit of the referred paper.
+
+REFERENCE FROM UPLOADED PAPER:
+"${reference}"
+
+CONTEXT WHERE REFERENCE WAS CITED (100 words before and after):
+"${citingContext}"
+
+ABSTRACT OF THE REFERENCED PAPER:
+"${abstract}"
+
+Please evaluate:
+1. Is the reference accurately cited?
+2. Does the citation context match the spirit and findings of the referenced paper?
+3. Is the reference being used appropriately in the uploaded paper?
+
+Provide:
+- An integrity score between 1 and 10 (1 = completely inaccurate/misused, 10 = perfectly accurate)
+- A brief justification (2-3 sentences) explaining your score
+
+Respond in this exact JSON format:
+{
+  "score": <number 1-10>,
+  "justification": "<your explanation>"
+}`,
+};
+
+export const FULL_TEXT_REVIEW: StructuredPromptTemplate<
+  FullTextReviewVars,
+  { score: number; justification: string; quote: string | null }
+> = {
+  name: 'full_text_review',
+  version: 1,
+  system: null,
+  schema: z.object({
+    score: z.number().min(1).max(10),
+    justification: z.string(),
+    quote: z.string().nullable(), // verbatim from a passage
+  }),
+  render: ({ reference, citingContext, passages }) => `You are a paper reviewer. Your job is to check whether a claim made in a paper is supported by the paper it cites.
+
+REFERENCE FROM UPLOADED PAPER:
+"${reference}"
+
+CONTEXT WHERE REFERENCE WAS CITED:
+"${citingContext}"
+
+PASSAGES FROM THE FULL TEXT OF THE CITED PAPER (most relevant first):
+${passages.map((passage, i) => `[${i + 1}] "${passage}"`).join('\n\n')}
+
+Please evaluate:
+1. Do the passages support what the citing context attributes to the cited paper?
+2. Are the findings, numbers, populations or conditions represented accurately, or overstated, generalized or reversed?
+
+Provide:
+- An integrity score between 1 and 10 (1 = the cited paper says otherwise, 10 = accurately represented)
+- A brief justification (2-3 sentences) explaining your score
+- The sentence(s) from the passages that best support or contradict the claim, copied verbatim
+
+Respond in this exact JSON format:
+{
+  "score": <number 1-10>,
+  "justification": "<your explanation>",
+  "quote": "<verbatim text from one passage>"
+}`,
+};
+
+export const CONTEXT_REVIEW: StructuredPromptTemplate<ContextReviewVars, { score: number; comments: string }> = {
+  name: 'context_review',
+  version: 1,
+  system: 'You are an academic paper reviewer providing concise assessments.',
+  schema: z.object({
+    score: z.number().min(0).max(100),
+    comments: z.string(),
+  }),
+  render: ({ citation, context }) => `You are an academic paper reviewer. Analyze how this paper is being referenced in context.
+
+Context: ${context}
+
+Reference Citation: ${citation}
+
+Based on the citation and context:
+1. Give 2-3 brief comments on whether the authors appear to be referencing the paper appropriately
+2. Assess if the citation seems relevant to the context in which it's used
+3. Rate the alignment between the context and what this type of reference would typically support
+
+Respond in JSON format: {"score": <0-100>, "comments": "<2-3 sentences>"}`,
+};
+
+// Labels are checked by the caller rather than the schema, so one stray label
+// drops one answer instead of sending the whole batch back for repair
+export const CITATION_STANCE: StructuredPromptTemplate<
+  CitationStanceVars,
+  { stances: Array<{ passage: number; stance: string; rationale: string }> }
+> = {
+  name: 'citation_stance',
+  version: 1,
+  system: 'You are an expert in scholarly citation analysis.',
+  schema: z.object({
+    stances: z.array(z.object({
+      passage: z.number(),
+      stance: z.string(),
+      rationale: z.string(),
+    })),
+  }),
+  render: ({ reference, passages }) => `You are classifying why a paper cites a reference. For each numbered passage, decide the intent of the sentence containing the citation given in parentheses before it:
+- background: general context or prior work, no specific claim relied on
+- method: the citing paper uses a method, tool, dataset or protocol from the cited work
+- supporting: the cited work is evidence for a claim the citing paper makes or agrees with
+- contrasting: the citing paper disagrees with, contradicts or reports results opposite to the cited work
+- comparison: the citing paper compares its own results or approach with the cited work
+
+Reference: ${reference}
+
+Passages:
+${passages.map((passage, i) => `[${i + 1}] (${passage.citation}) ${passage.context}`).join('\n')}
+
+Respond in JSON format: {"stances": [{"passage": <number>, "stance": "<background|method|supporting|contrasting|comparison>", "rationale": "<one sentence>"}]}`,
+};
+
+export const DOCUMENT_REVIEW: PromptTemplate<DocumentReviewVars> = {
+  name: 'document_review',
+  version: 1,
+  system: 'You are an academic journal reviewer providing concise, professional assessments of reference integrity.',
+  render: ({ reviews, stanceDescription }) => `You are an academic journal reviewer. Below are the individual reference integrity reviews for a research document. Each reference has been checked for existence against Crossref and OpenAlex (DOI validity and field-by-field agreement with the indexed record) and analyzed for context integrity.
+
+${reviews}
+${stanceDescription ? `\nCitation intent across the document: the paper ${stanceDescription}.\n` : ''}
+References without a context integrity score were not assessed; do not treat them as passing or failing.
+
+Based on these individual reviews, provide a concise overall summary (2-3 paragraphs) of the reference integrity for this document. Address:
+1. Whether the cited works exist as cited (missing records, mismatched titles, authors, years or DOIs)
+2. How well references support their usage context
+3. Any patterns or concerns across the reference list
+4. Final recommendation
+
+Response format: Plain text summary (no JSON, no special formatting).`,
+};
+
+export const REFERENCE_SUMMARY: PromptTemplate<ReferenceSummaryVars> = {
+  name: 'reference_summary',
+  version: 1,
+  system: null,
+  render: ({ reviews }) => `You are summarizing reference integrity checks.
+Each item has a score (1-10) and a short justification.
+Provide a concise overall verdict (2-3 sentences) noting strengths and risks, and a one-line recommendation.
+
+Reviews:\n${reviews
+    .map((r, i) => `${i + 1}. Score ${r.score}/10 - ${r.justification}`)
+    .join('\n')}`,
+};
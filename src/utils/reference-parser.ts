@@ -4,6 +4,8 @@
  * Extracts structured data: title, authors (first/last names), year, publication, etc.
  */
 
+import { FAMILY_NAME, INITIALS, splitPersonName } from '@/utils/author-names';
+
 export interface ParsedAuthor {
   firstName: string | null;
   lastName: string;
@@ -86,35 +88,35 @@ function detectReferenceFormat(text: string): { type: ParsedReference['detectedF
     
     // APA: Author, A. B. (Year). Title. Journal, Volume(Issue), pages.
     { 
-      regex: /^[A-Z][a-z]+,\s+[A-Z]\.\s*(?:[A-Z]\.)?\s*\(\d{4}\)/,
+      regex: new RegExp(`^${FAMILY_NAME},\\s+${INITIALS}(?:,?\\s*(?:&\\s*)?${FAMILY_NAME},\\s+${INITIALS})*,?\\s*\\(\\d{4}\\)`, 'u'),
       type: 'APA' as const,
       weight: 85
     },
     
     // MLA: Author. "Title." Journal vol. issue (year): pages.
     { 
-      regex: /^[A-Z][a-z]+,\s+[A-Z][a-z]+.*?\.\s+".*?"\./,
+      regex: new RegExp(`^${FAMILY_NAME},\\s+\\p{Lu}\\p{Ll}+.*?\\.\\s+".*?"\\.`, 'u'),
       type: 'MLA' as const,
       weight: 80
     },
     
     // Chicago: Author. "Title." Journal volume, no. issue (year): pages.
     { 
-      regex: /^[A-Z][a-z]+,\s+[A-Z][a-z]+\.\s+".*?"\.\s+.*?\s+\d+,\s+no\.\s+\d+/,
+      regex: new RegExp(`^${FAMILY_NAME},\\s+\\p{Lu}\\p{Ll}+\\.\\s+".*?"\\.\\s+.*?\\s+\\d+,\\s+no\\.\\s+\\d+`, 'u'),
       type: 'Chicago' as const,
       weight: 80
     },
     
     // Vancouver: Author AB. Title. Journal. Year;Volume(Issue):Pages.
     { 
-      regex: /^[A-Z][a-z]+\s+[A-Z]{2}\.\s+.*?\.\s+.*?\.\s+\d{4};/,
+      regex: new RegExp(`^${FAMILY_NAME}\\s+\\p{Lu}{2}\\.\\s+.*?\\.\\s+.*?\\.\\s+\\d{4};`, 'u'),
       type: 'Vancouver' as const,
       weight: 85
     },
     
     // Harvard: Author, A.B. (Year) 'Title', Journal, Volume(Issue), pp. pages.
     { 
-      regex: /^[A-Z][a-z]+,\s+[A-Z]\.[A-Z]\.\s+\(\d{4}\)\s+'/,
+      regex: new RegExp(`^${FAMILY_NAME},\\s+\\p{Lu}\\.-?\\p{Lu}\\.\\s+\\(\\d{4}\\)\\s+'`, 'u'),
       type: 'Harvard' as const,
       weight: 85
     },
@@ -389,14 +391,23 @@ function parseGenericReference(text: string): ParsedReference {
 /**
  * Parse author names from text based on format
  */
+const INITIALS_ONLY = new RegExp(`^${INITIALS}$`, 'u');
+
 function parseAuthors(text: string, format: string): ParsedAuthor[] {
   const authors: ParsedAuthor[] = [];
   
-  // Clean up common separators
-  text = text.replace(/\s+and\s+/gi, ', ').replace(/\s+&\s+/g, ', ');
+  // Clean up common separators (English, German, French, Spanish conjunctions)
+  text = text.replace(/\s+(?:and|und|et(?!\s+al\b)|y)\s+/gi, ', ').replace(/\s+&\s+/g, ', ');
   
-  // Split by commas or semicolons
-  const parts = text.split(/[,;]/).map(p => p.trim()).filter(p => p.length > 0);
+  // Split by commas or semicolons, keeping initials with their surname ("Zhang, Y.-Q.")
+  const parts: string[] = [];
+  for (const part of text.split(/[,;]/).map(p => p.trim()).filter(p => p.length > 0)) {
+    if (parts.length > 0 && INITIALS_ONLY.test(part) && !parts[parts.length - 1].includes(',')) {
+      parts[parts.length - 1] += `, ${part}`;
+    } else {
+      parts.push(part);
+    }
+  }
   
   for (const part of parts) {
     const author = parseAuthorName(part, format);
@@ -422,49 +433,14 @@ function parseAuthorName(name: string, format: string): ParsedAuthor | null {
   // Remove titles
   name = name.replace(/\b(Dr|Mr|Ms|Mrs|Prof|Professor)\.\s*/gi, '');
   
-  let firstName: string | null = null;
-  let lastName: string = '';
+  const split = splitPersonName(name);
+  if (!split) return null;
   
-  // APA/IEEE: Last, F. M. or Last, First M.
-  if (/^[A-Z][a-z]+,\s+[A-Z]/.test(name)) {
-    const parts = name.split(',').map(p => p.trim());
-    lastName = parts[0];
-    
-    if (parts[1]) {
-      // Extract first name from initials or full name
-      const firstPart = parts[1].replace(/\./g, ' ').trim();
-      const initials = firstPart.match(/[A-Z][a-z]*/g);
-      if (initials && initials.length > 0) {
-        firstName = initials[0];
-      }
-    }
-  }
-  // MLA: Last, First Middle
-  else if (/^[A-Z][a-z]+,\s+[A-Z][a-z]+/.test(name)) {
-    const parts = name.split(',').map(p => p.trim());
-    lastName = parts[0];
-    if (parts[1]) {
-      firstName = parts[1].split(/\s+/)[0];
-    }
-  }
-  // IEEE: F. M. Last
-  else if (/^[A-Z]\.\s*(?:[A-Z]\.\s*)?[A-Z][a-z]+/.test(name)) {
-    const parts = name.split(/\s+/);
-    lastName = parts[parts.length - 1];
-    if (parts[0].length <= 3) { // Likely an initial
-      firstName = parts[0].replace('.', '');
-    }
-  }
-  // First Last format
-  else {
-    const parts = name.split(/\s+/);
-    if (parts.length >= 2) {
-      firstName = parts[0];
-      lastName = parts[parts.length - 1];
-    } else if (parts.length === 1) {
-      lastName = parts[0];
-    }
-  }
+  // "Last, F. M." / "F. M. Last" / "First van der Last": keep the first given name or
+  // initial; hyphenated initials ("Y.-Q.") stay whole
+  const firstGiven = split.given ? split.given.split(/\s+/)[0] : null;
+  const firstName = firstGiven && /^\p{Lu}\.$/u.test(firstGiven) ? firstGiven[0] : firstGiven;
+  const lastName = split.family;
   
   if (!lastName) {
     return null;
@@ -0,0 +1,89 @@
+/**
+ * Crossref client
+ * DOI lookups and bibliographic search against the Crossref REST API:
+ * https://api.crossref.org/swagger-ui/index.html
+ */
+
+import { textContent } from '@/utils/ingestion/xml';
+import {
+  arxivIdFromDoi,
+  fetchJson,
+  normalizeDoi,
+  type MetadataCandidate,
+  type MetadataSource,
+  type ReferenceQuery,
+  type SourceOptions,
+} from '@/utils/resolver/sources';
+
+const CROSSREF_API = 'https://api.crossref.org';
+
+interface CrossrefWork {
+  DOI: string;
+  type?: string; // "journal-article", "posted-content" for preprints
+  title?: string[];
+  author?: Array<{ given?: string; family?: string; name?: string }>;
+  issued?: { 'date-parts'?: Array<Array<number | null>> };
+  'container-title'?: string[];
+  abstract?: string;
+  relation?: Record<string, Array<{ 'id-type': string; id: string }>>;
+}
+
+export function createCrossrefClient(options: SourceOptions = {}): MetadataSource {
+  const http = options.http ?? fetch;
+  const baseUrl = (options.baseUrl ?? CROSSREF_API).replace(/\/$/, '');
+  const polite = options.mailto ? `mailto=${encodeURIComponent(options.mailto)}` : '';
+
+  return {
+    name: 'crossref',
+
+    async lookupDoi(doi) {
+      const url = `${baseUrl}/works/${encodeURIComponent(normalizeDoi(doi))}${polite ? `?${polite}` : ''}`;
+      const data = await fetchJson(http, url, 'crossref') as { message?: CrossrefWork } | null;
+      return data?.message ? toCandidate(data.message) : null;
+    },
+
+    async search(query, limit) {
+      const params = new URLSearchParams({
+        'query.bibliographic': bibliographicQuery(query),
+        rows: String(limit),
+      });
+      if (query.authors[0]) params.set('query.author', query.authors[0]);
+      if (options.mailto) params.set('mailto', options.mailto);
+
+      const data = await fetchJson(http, `${baseUrl}/works?${params}`, 'crossref') as { message?: { items?: CrossrefWork[] } } | null;
+      return (data?.message?.items ?? []).map(toCandidate).filter(c => c.title);
+    },
+  };
+}
+
+// Crossref ranks best on the whole citation; fall back to it when no title was parsed
+function bibliographicQuery(query: ReferenceQuery): string {
+  const text = query.title ? [query.title, query.year].filter(Boolean).join(' ') : query.rawText;
+  return text.slice(0, 300);
+}
+
+function toCandidate(work: CrossrefWork): MetadataCandidate {
+  const year = work.issued?.['date-parts']?.[0]?.[0] ?? null;
+  // Publishers link the two versions with has-preprint / is-preprint-of relations
+  const related = (type: string) => (work.relation?.[type] ?? [])
+    .filter(r => r['id-type'] === 'doi')
+    .map(r => normalizeDoi(r.id));
+  const isPreprint = work.type === 'posted-content';
+
+  return {
+    source: 'crossref',
+    externalId: normalizeDoi(work.DOI),
+    doi: normalizeDoi(work.DOI),
+    pmid: null,
+    title: textContent(work.title?.[0] ?? ''),
+    authors: (work.author ?? [])
+      .map(a => a.name ?? [a.given, a.family].filter(Boolean).join(' '))
+      .filter(Boolean),
+    year: typeof year === 'number' ? year : null,
+    journal: work['container-title']?.[0] ?? null,
+    // Abstracts come as JATS XML ("<jats:p>...</jats:p>")
+    abstract: work.abstract ? textContent(work.abstract) : null,
+    arxivId: [work.DOI, ...related('has-preprint')].map(arxivIdFromDoi).find(Boolean) ?? null,
+    publishedDoi: isPreprint ? related('is-preprint-of')[0] ?? null : normalizeDoi(work.DOI),
+  };
+}
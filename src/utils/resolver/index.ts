@@ -0,0 +1,327 @@
+/**
+ * Metadata resolver
+ * Looks each document reference up in Crossref and OpenAlex, by DOI when the
+ * citation has one and by title, author and year otherwise, then links the
+ * best-scoring work as its canonical reference, scoring how well the citation
+ * agrees with it as the reference's existence check. References that name an
+ * arXiv id also get that arXiv record, and preprints that have since been
+ * published are flagged in the citation report.
+ */
+
+import { parseReference } from '@/utils/reference-parser';
+import { arxivIdFromUrl, extractArxivId, fetchArxivById, type ArxivResult } from '@/utils/arxiv';
+import { normalizeTitle } from '@/utils/text-similarity';
+import {
+  createCanonicalReference,
+  findCanonicalReference,
+  getDocumentCitationReport,
+  getDocumentReferences,
+  linkCanonicalReference,
+  updateCanonicalReferenceVersions,
+  updateDocumentCitationReport,
+  updateDocumentReferenceArxiv,
+  updateDocumentReferenceExistence,
+} from '@/utils/database/operations';
+import type { DocumentReference, MatchStatus, PublishedVersion } from '@/types/database';
+import { createCrossrefClient } from '@/utils/resolver/crossref';
+import { createOpenAlexClient } from '@/utils/resolver/openalex';
+import { classifyMatch, rankCandidates, type ScoredCandidate } from '@/utils/resolver/scoring';
+import { normalizeDoi, type MetadataCandidate, type MetadataSource, type ReferenceQuery } from '@/utils/resolver/sources';
+import { assessExistence, existenceProvenance } from '@/utils/verification/existence';
+
+export type { HttpClient, MetadataCandidate, MetadataSource, ReferenceQuery, SourceOptions } from '@/utils/resolver/sources';
+export { createCrossrefClient } from '@/utils/resolver/crossref';
+export { createOpenAlexClient } from '@/utils/resolver/openalex';
+
+const SEARCH_LIMIT = 5;
+
+export interface ResolverOptions {
+  sources?: MetadataSource[]; // defaults to live Crossref and OpenAlex clients
+  fetchArxiv?: (id: string) => Promise<ArxivResult | null>; // defaults to the arXiv API
+  pendingOnly?: boolean; // skip references an earlier, interrupted run already resolved; errors are retried
+  onProgress?: (done: number, total: number) => Promise<void>; // after each distinct reference
+}
+
+export interface Resolution {
+  status: Exclude<MatchStatus, 'pending'>;
+  best: ScoredCandidate | null;
+  candidates: ScoredCandidate[]; // best first, one per distinct work
+  errors: string[]; // sources that failed; status is 'error' only when all did
+}
+
+export function defaultSources(): MetadataSource[] {
+  const mailto = process.env.RESOLVER_MAILTO;
+  return [createCrossrefClient({ mailto }), createOpenAlexClient({ mailto })];
+}
+
+/**
+ * Build the lookup query for a stored document reference
+ */
+export function buildReferenceQuery(
+  reference: Pick<DocumentReference, 'raw_citation_text' | 'first_author' | 'second_author' | 'last_author' | 'year' | 'publication'>
+): ReferenceQuery {
+  const parsed = parseReference(reference.raw_citation_text);
+  const doi = parsed.doi ?? reference.raw_citation_text.match(/10\.\d{4,9}\/[^\s,;]+/)?.[0] ?? null;
+
+  return {
+    doi: doi ? normalizeDoi(doi) : null,
+    title: parsed.title,
+    authors: [reference.first_author, reference.second_author, reference.last_author]
+      .filter((name): name is string => Boolean(name)),
+    year: reference.year ?? parsed.year,
+    venue: reference.publication ?? parsed.journal,
+    rawText: reference.raw_citation_text,
+  };
+}
+
+/**
+ * Query every source for one reference and decide its match status
+ */
+export async function resolveReference(query: ReferenceQuery, sources: MetadataSource[]): Promise<Resolution> {
+  const errors: string[] = [];
+
+  const collect = async (lookup: (source: MetadataSource) => Promise<MetadataCandidate[]>) => {
+    const settled = await Promise.allSettled(sources.map(lookup));
+    return settled.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return result.value;
+      errors.push(`${sources[i].name}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+      return [];
+    });
+  };
+
+  let found: MetadataCandidate[] = [];
+  if (query.doi) {
+    const doi = query.doi;
+    found = await collect(async source => {
+      const candidate = await source.lookupDoi(doi);
+      return candidate ? [candidate] : [];
+    });
+  }
+  // Cited DOIs are sometimes mistyped; fall back to searching
+  if (found.length === 0) {
+    found = await collect(source => source.search(query, SEARCH_LIMIT));
+  }
+
+  const candidates = rankCandidates(query, mergeCandidates(found));
+
+  if (candidates.length === 0) {
+    const allFailed = errors.length > 0 && errors.length >= sources.length;
+    return { status: allFailed ? 'error' : 'not_found', best: null, candidates, errors };
+  }
+
+  const status = classifyMatch(candidates);
+  return { status, best: status === 'not_found' ? null : candidates[0], candidates, errors };
+}
+
+/**
+ * Resolve every reference of a document and link matches to canonical_references
+ */
+export async function resolveDocumentReferences(
+  documentId: string,
+  options: ResolverOptions = {}
+): Promise<Record<Resolution['status'], number>> {
+  const sources = options.sources ?? defaultSources();
+  const fetchArxiv = options.fetchArxiv ?? fetchArxivById;
+  const references = await getDocumentReferences(documentId);
+  const counts = { matched: 0, not_found: 0, ambiguous: 0, error: 0 };
+  const publishedVersions: PublishedVersion[] = [];
+  const alreadyResolved = new Set<number>();
+
+  // Duplicates are not looked up again; they get the outcome of the entry they repeat
+  const duplicatesOf = new Map<number, DocumentReference[]>();
+  for (const reference of references) {
+    if (typeof reference.duplicate_of_position !== 'number') continue;
+    const group = duplicatesOf.get(reference.duplicate_of_position) ?? [];
+    group.push(reference);
+    duplicatesOf.set(reference.duplicate_of_position, group);
+  }
+
+  const total = references.filter(reference => typeof reference.duplicate_of_position !== 'number').length;
+  let done = 0;
+
+  for (const reference of references) {
+    if (typeof reference.duplicate_of_position === 'number') continue;
+
+    if (options.pendingOnly && reference.match_status !== 'pending' && reference.match_status !== 'error') {
+      alreadyResolved.add(reference.position_in_doc ?? 0);
+      await options.onProgress?.(++done, total);
+      continue;
+    }
+
+    const arxivRecord = await storeArxivRecord(reference, fetchArxiv);
+
+    const query = buildReferenceQuery(reference);
+    let resolution: Resolution;
+    try {
+      resolution = await resolveReference(query, sources);
+    } catch (err) {
+      console.error(`[resolver] Failed to resolve reference ${reference.id}:`, err);
+      resolution = { status: 'error', best: null, candidates: [], errors: [String(err)] };
+    }
+
+    if (resolution.errors.length > 0) {
+      console.warn(`[resolver] Source errors for reference ${reference.id}: ${resolution.errors.join('; ')}`);
+    }
+
+    const matched = resolution.status === 'matched' ? resolution.best?.candidate ?? null : null;
+    const versions = versionLinks(matched, arxivRecord);
+    const canonicalId = matched ? await storeCanonicalReference(matched, versions) : null;
+
+    const existence = assessExistence(query, resolution);
+    const provenance = existenceProvenance();
+    const group = [reference, ...(duplicatesOf.get(reference.position_in_doc ?? -1) ?? [])];
+    for (const row of group) {
+      await linkCanonicalReference(row.id, {
+        canonicalReferenceId: canonicalId,
+        matchStatus: resolution.status,
+        matchScore: resolution.best?.score ?? null,
+      });
+      await updateDocumentReferenceExistence(row.id, {
+        score: existence.score,
+        check: existence.summary,
+        details: existence.details,
+        provenance,
+      });
+    }
+    counts[resolution.status]++;
+
+    // Reviewers want the version of record cited rather than the preprint
+    const citedArxivId = extractArxivId(reference.raw_citation_text)?.replace(/v\d+$/, '');
+    const citesPublished = versions.publishedDoi !== null
+      && reference.raw_citation_text.toLowerCase().includes(versions.publishedDoi);
+    if (citedArxivId && (versions.publishedDoi || versions.journalRef) && !citesPublished) {
+      publishedVersions.push({
+        position: reference.position_in_doc ?? 0,
+        raw_reference: reference.raw_citation_text,
+        arxiv_id: citedArxivId,
+        published_doi: versions.publishedDoi,
+        journal_ref: versions.journalRef,
+      });
+    }
+
+    await options.onProgress?.(++done, total);
+  }
+
+  // Documents parsed before citation reports existed have nothing to add to
+  const report = await getDocumentCitationReport(documentId);
+  if (report) {
+    // Keep what the earlier run found for the references it resolved
+    const kept = (report.published_versions ?? []).filter(version => alreadyResolved.has(version.position));
+    await updateDocumentCitationReport(documentId, {
+      ...report,
+      published_versions: [...kept, ...publishedVersions].sort((a, b) => a.position - b.position),
+    });
+  }
+
+  console.log(
+    `[resolver] Document ${documentId}: ${counts.matched} matched, ${counts.ambiguous} ambiguous, ` +
+    `${counts.not_found} not found, ${counts.error} errors, ` +
+    `${publishedVersions.length} preprints with a published version` +
+    (alreadyResolved.size > 0 ? `, ${alreadyResolved.size} already resolved` : '')
+  );
+
+  return counts;
+}
+
+// A citation that names its arXiv id gets that exact record, never a search hit
+async function storeArxivRecord(
+  reference: Pick<DocumentReference, 'id' | 'raw_citation_text'>,
+  fetchArxiv: (id: string) => Promise<ArxivResult | null>
+): Promise<ArxivResult | null> {
+  const arxivId = extractArxivId(reference.raw_citation_text);
+  if (!arxivId) return null;
+
+  try {
+    const record = await fetchArxiv(arxivId);
+    if (!record) {
+      console.warn(`[resolver] arXiv has no record ${arxivId} cited by reference ${reference.id}`);
+      return null;
+    }
+    await updateDocumentReferenceArxiv(reference.id, {
+      arxivId: record.id.replace(/^https?:\/\/arxiv\.org\/abs\//, '') || arxivId,
+      title: record.title,
+      link: record.link,
+      pdfUrl: record.pdfUrl,
+      published: record.published,
+    });
+    return record;
+  } catch (err) {
+    console.error(`[resolver] arXiv lookup failed for ${arxivId}:`, err);
+    return null;
+  }
+}
+
+interface VersionLinks {
+  arxivId: string | null;
+  publishedDoi: string | null;
+  journalRef: string | null;
+}
+
+// Both versions of the matched work: the metadata sources' relations first,
+// then the DOI and journal reference the authors added on arXiv
+function versionLinks(matched: MetadataCandidate | null, arxivRecord: ArxivResult | null): VersionLinks {
+  const arxivDoi = arxivRecord?.doi ? normalizeDoi(arxivRecord.doi) : null;
+  return {
+    arxivId: matched?.arxivId ?? (arxivRecord ? arxivIdFromUrl(arxivRecord.id) : null),
+    publishedDoi: matched?.publishedDoi ?? arxivDoi,
+    journalRef: arxivRecord?.journalRef ?? null,
+  };
+}
+
+// Reuse the row another document already resolved to the same work
+async function storeCanonicalReference(candidate: MetadataCandidate, versions: VersionLinks): Promise<string> {
+  const existing = await findCanonicalReference({
+    doi: candidate.doi,
+    sourceApi: candidate.source,
+    externalId: candidate.externalId,
+  });
+  if (existing) {
+    await updateCanonicalReferenceVersions(existing.id, versions);
+    return existing.id;
+  }
+
+  const created = await createCanonicalReference({
+    doi: candidate.doi,
+    pmid: candidate.pmid,
+    external_id: candidate.externalId,
+    title: candidate.title,
+    authors: candidate.authors,
+    publication_year: candidate.year,
+    journal: candidate.journal,
+    abstract: candidate.abstract,
+    source_api: candidate.source,
+    arxiv_id: versions.arxivId,
+    published_doi: versions.publishedDoi,
+    journal_ref: versions.journalRef,
+    last_verified: new Date().toISOString(),
+  });
+  return created.id;
+}
+
+// The same work from both sources becomes one candidate: Crossref's record,
+// with whatever it lacks (abstract, PubMed id) filled in from OpenAlex
+function mergeCandidates(candidates: MetadataCandidate[]): MetadataCandidate[] {
+  const byWork = new Map<string, MetadataCandidate>();
+
+  for (const candidate of candidates) {
+    const key = candidate.doi ?? `${normalizeTitle(candidate.title)}|${candidate.year ?? ''}`;
+    const existing = byWork.get(key);
+    if (!existing) {
+      byWork.set(key, candidate);
+      continue;
+    }
+
+    const [primary, secondary] = existing.source === 'crossref' ? [existing, candidate] : [candidate, existing];
+    byWork.set(key, {
+      ...primary,
+      pmid: primary.pmid ?? secondary.pmid,
+      journal: primary.journal ?? secondary.journal,
+      abstract: primary.abstract ?? secondary.abstract,
+      authors: primary.authors.length > 0 ? primary.authors : secondary.authors,
+      arxivId: primary.arxivId ?? secondary.arxivId,
+      publishedDoi: primary.publishedDoi ?? secondary.publishedDoi,
+    });
+  }
+
+  return [...byWork.values()];
+}
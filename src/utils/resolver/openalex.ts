@@ -0,0 +1,97 @@
+/**
+ * OpenAlex client
+ * DOI lookups and title search against the OpenAlex works API:
+ * https://docs.openalex.org/api-entities/works
+ */
+
+import {
+  arxivIdFromDoi,
+  fetchJson,
+  normalizeDoi,
+  type MetadataCandidate,
+  type MetadataSource,
+  type SourceOptions,
+} from '@/utils/resolver/sources';
+
+const OPENALEX_API = 'https://api.openalex.org';
+
+interface OpenAlexWork {
+  id: string; // "https://openalex.org/W2741809807"
+  doi?: string | null;
+  title?: string | null;
+  display_name?: string | null;
+  publication_year?: number | null;
+  authorships?: Array<{ author?: { display_name?: string } }>;
+  primary_location?: { source?: { display_name?: string } | null } | null;
+  ids?: { pmid?: string };
+  locations?: Array<{ landing_page_url?: string | null; version?: string | null }>;
+  abstract_inverted_index?: Record<string, number[]> | null;
+}
+
+export function createOpenAlexClient(options: SourceOptions = {}): MetadataSource {
+  const http = options.http ?? fetch;
+  const baseUrl = (options.baseUrl ?? OPENALEX_API).replace(/\/$/, '');
+
+  const withPolite = (params: URLSearchParams) => {
+    if (options.mailto) params.set('mailto', options.mailto);
+    return params.toString();
+  };
+
+  return {
+    name: 'openalex',
+
+    async lookupDoi(doi) {
+      const params = withPolite(new URLSearchParams());
+      // OpenAlex takes the DOI URL itself as the work id
+      const url = `${baseUrl}/works/${encodeURI(`https://doi.org/${normalizeDoi(doi)}`)}${params ? `?${params}` : ''}`;
+      const work = await fetchJson(http, url, 'openalex') as OpenAlexWork | null;
+      return work?.id ? toCandidate(work) : null;
+    },
+
+    async search(query, limit) {
+      const params = new URLSearchParams({
+        search: (query.title ?? query.rawText).slice(0, 300),
+        per_page: String(limit),
+      });
+      // Allow a year either side: preprints and online-first versions shift the year
+      if (query.year) params.set('filter', `publication_year:${query.year - 1}-${query.year + 1}`);
+
+      const data = await fetchJson(http, `${baseUrl}/works?${withPolite(params)}`, 'openalex') as { results?: OpenAlexWork[] } | null;
+      return (data?.results ?? []).map(toCandidate).filter(c => c.title);
+    },
+  };
+}
+
+function toCandidate(work: OpenAlexWork): MetadataCandidate {
+  const doi = work.doi ? normalizeDoi(work.doi) : null;
+  // OpenAlex folds the preprint and the published article into one work, one location each
+  const arxivLocation = (work.locations ?? [])
+    .map(l => l.landing_page_url?.match(/arxiv\.org\/abs\/([^?#]+?)(?:v\d+)?$/i)?.[1])
+    .find(Boolean);
+  const arxivDoi = doi ? arxivIdFromDoi(doi) : null;
+
+  return {
+    source: 'openalex',
+    externalId: work.id.replace(/^https:\/\/openalex\.org\//, ''),
+    doi,
+    pmid: work.ids?.pmid?.replace(/^https:\/\/pubmed\.ncbi\.nlm\.nih\.gov\//, '') ?? null,
+    title: work.title ?? work.display_name ?? '',
+    authors: (work.authorships ?? [])
+      .map(a => a.author?.display_name ?? '')
+      .filter(Boolean),
+    year: work.publication_year ?? null,
+    journal: work.primary_location?.source?.display_name ?? null,
+    abstract: work.abstract_inverted_index ? invertAbstract(work.abstract_inverted_index) : null,
+    arxivId: arxivDoi ?? arxivLocation ?? null,
+    publishedDoi: doi && !arxivDoi ? doi : null,
+  };
+}
+
+// OpenAlex ships abstracts as {word: [positions]}; rebuild the running text
+function invertAbstract(index: Record<string, number[]>): string {
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) words[position] = word;
+  }
+  return words.filter(Boolean).join(' ');
+}
@@ -0,0 +1,114 @@
+/**
+ * Candidate scoring
+ * Rates how well a work returned by a metadata source matches a document
+ * reference: title similarity, first-author surname and year. A matching DOI
+ * settles it outright.
+ */
+
+import { splitPersonName } from '@/utils/author-names';
+import { normalizeTitle, similarityRatio } from '@/utils/text-similarity';
+import { normalizeDoi, type MetadataCandidate, type ReferenceQuery } from '@/utils/resolver/sources';
+
+export interface ScoredCandidate {
+  candidate: MetadataCandidate;
+  score: number; // 0 to 1
+}
+
+export type MatchDecision = 'matched' | 'ambiguous' | 'not_found';
+
+// Best score needed to link a work without review
+const MATCH_THRESHOLD = 0.8;
+// Below this nothing returned resembles the citation
+const CANDIDATE_THRESHOLD = 0.6;
+// A runner-up this close to the best leaves the choice to the user
+const AMBIGUITY_MARGIN = 0.05;
+
+// Weights of the three signals; they sum to 1
+const TITLE_WEIGHT = 0.65;
+const AUTHOR_WEIGHT = 0.2;
+const YEAR_WEIGHT = 0.15;
+
+/**
+ * Score one candidate against the reference it may resolve
+ */
+export function scoreCandidate(query: ReferenceQuery, candidate: MetadataCandidate): number {
+  if (query.doi && candidate.doi && normalizeDoi(query.doi) === candidate.doi) return 1;
+
+  const score = TITLE_WEIGHT * titleSimilarity(query, candidate.title)
+    + AUTHOR_WEIGHT * authorScore(query.authors, candidate.authors)
+    + YEAR_WEIGHT * yearScore(query.year, candidate.year);
+
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Score and rank candidates, best first
+ */
+export function rankCandidates(query: ReferenceQuery, candidates: MetadataCandidate[]): ScoredCandidate[] {
+  return candidates
+    .map(candidate => ({ candidate, score: scoreCandidate(query, candidate) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Decide whether the best of the ranked candidates is the cited work
+ */
+export function classifyMatch(ranked: ScoredCandidate[]): MatchDecision {
+  const [best, runnerUp] = ranked;
+  if (!best || best.score < CANDIDATE_THRESHOLD) return 'not_found';
+  if (best.score < MATCH_THRESHOLD) return 'ambiguous';
+  if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) return 'ambiguous';
+  return 'matched';
+}
+
+/**
+ * How closely a work's title matches the citation, 0 to 1. The parsed title is
+ * often cut short or absorbs the venue, so this also checks how much of the
+ * work's title appears verbatim in the raw citation.
+ */
+export function titleSimilarity(query: ReferenceQuery, candidateTitle: string): number {
+  const title = normalizeTitle(candidateTitle);
+  if (!title) return 0;
+
+  const raw = normalizeTitle(query.rawText);
+  if (` ${raw} `.includes(` ${title} `)) return 1;
+
+  const parsed = query.title ? similarityRatio(normalizeTitle(query.title), title) : 0;
+  const rawTokens = new Set(raw.split(' '));
+  const titleTokens = title.split(' ');
+  // A few common words are not evidence of anything
+  const recall = titleTokens.length >= 3
+    ? titleTokens.filter(token => rawTokens.has(token)).length / titleTokens.length
+    : 0;
+
+  return Math.max(parsed, recall * 0.9);
+}
+
+/**
+ * Comparable surname of a cited or recorded author: "van der Berg, J." → "berg"
+ */
+export function surnameKey(name: string): string {
+  const family = splitPersonName(name)?.family ?? name;
+  return normalizeTitle(family).split(' ').pop() ?? '';
+}
+
+function authorScore(queryAuthors: string[], candidateAuthors: string[]): number {
+  if (queryAuthors.length === 0 || candidateAuthors.length === 0) return 0.5;
+
+  const first = surnameKey(queryAuthors[0]);
+  const surnames = candidateAuthors.map(surnameKey);
+
+  if (surnames[0] === first) return 1;
+  // Author order sometimes differs between the citation and the record
+  if (surnames.includes(first)) return 0.7;
+  return 0;
+}
+
+function yearScore(queryYear: number | null, candidateYear: number | null): number {
+  if (queryYear === null || candidateYear === null) return 0.5;
+  const gap = Math.abs(queryYear - candidateYear);
+  if (gap === 0) return 1;
+  // Online-first and print years often differ by one
+  if (gap === 1) return 0.6;
+  return 0;
+}
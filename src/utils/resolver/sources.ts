@@ -0,0 +1,80 @@
+/**
+ * Metadata sources
+ * Shared shapes for the bibliographic APIs the resolver queries. Each source
+ * takes its HTTP client and base URL as options, so tests can point it at a
+ * local fixture server instead of the live API.
+ */
+
+/** fetch-compatible function used for every outgoing request */
+export type HttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type SourceName = 'crossref' | 'openalex' | 'arxiv';
+
+export interface SourceOptions {
+  http?: HttpClient; // defaults to global fetch
+  baseUrl?: string; // defaults to the public API
+  mailto?: string; // contact address for the APIs' polite pools
+}
+
+/** What we know about a document reference when looking it up */
+export interface ReferenceQuery {
+  doi: string | null;
+  title: string | null;
+  authors: string[]; // names as cited, first author first
+  year: number | null;
+  venue: string | null; // journal or proceedings as cited
+  rawText: string;
+}
+
+/** A work returned by a metadata source */
+export interface MetadataCandidate {
+  source: SourceName;
+  externalId: string; // the source's own identifier (Crossref DOI, OpenAlex W-id)
+  doi: string | null;
+  pmid: string | null;
+  title: string;
+  authors: string[]; // display names, "Given Family"
+  year: number | null;
+  journal: string | null;
+  abstract: string | null;
+  arxivId: string | null; // arXiv preprint of this work, versionless
+  publishedDoi: string | null; // DOI of the peer-reviewed version of record
+}
+
+export interface MetadataSource {
+  name: SourceName;
+  lookupDoi(doi: string): Promise<MetadataCandidate | null>;
+  search(query: ReferenceQuery, limit: number): Promise<MetadataCandidate[]>;
+}
+
+const USER_AGENT = 'refint/1.0 (+https://github.com/ali-javed/refint-clean)';
+
+/**
+ * GET a JSON document; null when the API has no such record (404)
+ */
+export async function fetchJson(http: HttpClient, url: string, sourceName: SourceName): Promise<unknown> {
+  const res = await http(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' },
+  });
+
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`${sourceName} request failed: ${res.status} ${res.statusText}`);
+  }
+
+  return res.json();
+}
+
+/** arXiv identifier behind an arXiv DOI: "10.48550/arXiv.1706.03762" → "1706.03762" */
+export function arxivIdFromDoi(doi: string): string | null {
+  return normalizeDoi(doi).match(/^10\.48550\/arxiv\.(.+)$/)?.[1] ?? null;
+}
+
+/** Bare lower-case DOI: "https://doi.org/10.1000/ABC." → "10.1000/abc" */
+export function normalizeDoi(doi: string): string {
+  return doi
+    .trim()
+    .toLowerCase()
+    .replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/, '')
+    .replace(/[.,;)\]]+$/, '');
+}
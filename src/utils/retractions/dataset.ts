@@ -0,0 +1,171 @@
+/**
+ * Retraction datasets
+ * Turns the Retraction Watch CSV export, or any list of DOIs, into rows for
+ * retraction_notices. Retraction Watch files are recognised by their
+ * OriginalPaperDOI column; other CSVs need a column whose header mentions
+ * "doi"; anything else is read as one DOI per line.
+ */
+
+import { normalizeDoi } from '@/utils/resolver/sources';
+import type { RetractionNoticeInsert, RetractionNoticeType } from '@/types/database';
+
+export interface ParsedDataset {
+  format: 'retraction_watch' | 'doi_csv' | 'doi_list';
+  notices: RetractionNoticeInsert[];
+  skipped: number; // rows without a usable DOI or notice type
+}
+
+const DOI_PATTERN = /10\.\d{4,9}\/\S+/;
+
+// Retraction Watch "RetractionNature" values; reinstatements lift a notice, so they are not imported
+const RETRACTION_WATCH_NATURES: Record<string, RetractionNoticeType | null> = {
+  'retraction': 'retraction',
+  'expression of concern': 'expression_of_concern',
+  'correction': 'correction',
+  'reinstatement': null,
+};
+
+/**
+ * Parse a retraction dataset. `defaultType` applies to DOI lists, which do not say what kind of notice each DOI has.
+ */
+export function parseRetractionDataset(
+  text: string,
+  options: { source: string; defaultType?: RetractionNoticeType }
+): ParsedDataset {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const header = (rows[0] ?? []).map(cell => cell.trim().toLowerCase());
+
+  if (header.includes('originalpaperdoi')) {
+    return collect('retraction_watch', rows.slice(1), row => {
+      const cell = (name: string) => row[header.indexOf(name)]?.trim() ?? '';
+      const type = RETRACTION_WATCH_NATURES[cell('retractionnature').toLowerCase()];
+      return type ? {
+        doi: cell('originalpaperdoi'),
+        notice_type: type,
+        notice_doi: cleanDoi(cell('retractiondoi')),
+        notice_date: parseUsDate(cell('retractiondate')),
+        reason: cleanReason(cell('reason')),
+      } : null;
+    }, options.source);
+  }
+
+  const doiColumn = header.findIndex(name => name.includes('doi'));
+  if (doiColumn !== -1 && !DOI_PATTERN.test(rows[0][doiColumn])) {
+    const typeColumn = header.findIndex(name => name === 'type' || name === 'notice_type' || name === 'nature');
+    return collect('doi_csv', rows.slice(1), row => {
+      const type = typeColumn === -1
+        ? options.defaultType ?? 'retraction'
+        : noticeType(row[typeColumn] ?? '') ?? options.defaultType ?? null;
+      return type ? { doi: row[doiColumn] ?? '', notice_type: type, notice_doi: null, notice_date: null, reason: null } : null;
+    }, options.source);
+  }
+
+  return collect('doi_list', text.split(/\r?\n/).map(line => [line]), ([line]) => ({
+    doi: line.match(DOI_PATTERN)?.[0] ?? '',
+    notice_type: options.defaultType ?? 'retraction',
+    notice_doi: null,
+    notice_date: null,
+    reason: null,
+  }), options.source);
+}
+
+function collect(
+  format: ParsedDataset['format'],
+  rows: string[][],
+  toNotice: (row: string[]) => Omit<RetractionNoticeInsert, 'source'> | null,
+  source: string
+): ParsedDataset {
+  const notices: RetractionNoticeInsert[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  for (const row of rows) {
+    if (row.every(cell => !cell.trim())) continue;
+
+    const notice = toNotice(row);
+    const doi = notice ? cleanDoi(notice.doi) : null;
+    if (!notice || !doi) {
+      skipped++;
+      continue;
+    }
+
+    // The export repeats a paper once per notice; identical rows add nothing
+    const key = `${doi}|${notice.notice_type}|${notice.notice_doi ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    notices.push({ ...notice, doi, source });
+  }
+
+  console.log(`[retractions] Parsed ${notices.length} notices from ${format} (${skipped} rows skipped)`);
+  return { format, notices, skipped };
+}
+
+// Retraction Watch writes "unavailable" or leaves the cell empty when there is no DOI
+function cleanDoi(value: string): string | null {
+  const match = value.match(DOI_PATTERN);
+  return match ? normalizeDoi(match[0]) : null;
+}
+
+function noticeType(value: string): RetractionNoticeType | null {
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (normalized.startsWith('retract')) return 'retraction';
+  if (normalized.includes('concern')) return 'expression_of_concern';
+  if (normalized.startsWith('correct') || normalized === 'erratum') return 'correction';
+  return null;
+}
+
+// "8/24/2021 0:00" → "2021-08-24"
+function parseUsDate(value: string): string | null {
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (!match) return null;
+  const [, month, day, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// "+Duplication of Article;+Error in Data;" → "Duplication of Article; Error in Data"
+function cleanReason(value: string): string | null {
+  const reasons = value.split(';').map(r => r.replace(/^\+/, '').trim()).filter(Boolean);
+  return reasons.length > 0 ? reasons.join('; ') : null;
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
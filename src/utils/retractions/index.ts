@@ -0,0 +1,84 @@
+/**
+ * Retraction screening
+ * Checks every reference of a document against the imported retraction
+ * notices, by the DOI of its canonical reference (and of the published
+ * version, for preprints) or a DOI written in the citation itself.
+ */
+
+import {
+  findRetractionNotices,
+  getDocumentReferences,
+  replaceRetractionNotices,
+  updateDocumentReferenceRetraction,
+} from '@/utils/database/operations';
+import { normalizeDoi } from '@/utils/resolver/sources';
+import { parseRetractionDataset, type ParsedDataset } from '@/utils/retractions/dataset';
+import type { DocumentReferenceWithFeedback, RetractionDetail, RetractionNotice, RetractionNoticeType, RetractionStatus } from '@/types/database';
+
+export { parseRetractionDataset } from '@/utils/retractions/dataset';
+
+// Most serious first: a retraction outranks a concern, which outranks a correction
+const SEVERITY: RetractionNoticeType[] = ['retraction', 'expression_of_concern', 'correction'];
+
+/**
+ * Parse a dataset and replace the notices previously imported from the same source
+ */
+export async function importRetractionDataset(
+  text: string,
+  options: { source: string; defaultType?: RetractionNoticeType }
+): Promise<Omit<ParsedDataset, 'notices'> & { imported: number }> {
+  const { format, notices, skipped } = parseRetractionDataset(text, options);
+  const imported = await replaceRetractionNotices(options.source, notices);
+
+  console.log(`[retractions] Imported ${imported} notices from ${options.source}`);
+  return { format, skipped, imported };
+}
+
+/**
+ * Screen every reference of a document and record what was found
+ */
+export async function screenDocumentReferences(documentId: string): Promise<Record<RetractionStatus, number>> {
+  const references = await getDocumentReferences(documentId);
+  const counts: Record<RetractionStatus, number> = { none: 0, retraction: 0, expression_of_concern: 0, correction: 0 };
+
+  const doisByReference = new Map(references.map(reference => [reference.id, referenceDois(reference)]));
+  const notices = await findRetractionNotices([...new Set([...doisByReference.values()].flat())]);
+
+  const noticesByDoi = new Map<string, RetractionNotice[]>();
+  for (const notice of notices) {
+    noticesByDoi.set(notice.doi, [...(noticesByDoi.get(notice.doi) ?? []), notice]);
+  }
+
+  for (const reference of references) {
+    const matches = (doisByReference.get(reference.id) ?? []).flatMap(doi => noticesByDoi.get(doi) ?? []);
+    const details: RetractionDetail[] = matches
+      .sort((a, b) => SEVERITY.indexOf(a.notice_type) - SEVERITY.indexOf(b.notice_type))
+      .map(notice => ({
+        notice_type: notice.notice_type,
+        notice_doi: notice.notice_doi,
+        notice_date: notice.notice_date,
+        reason: notice.reason,
+        source: notice.source,
+      }));
+    const status: RetractionStatus = details[0]?.notice_type ?? 'none';
+
+    await updateDocumentReferenceRetraction(reference.id, status, details);
+    counts[status]++;
+  }
+
+  console.log(
+    `[retractions] Document ${documentId}: ${counts.retraction} retracted, ` +
+    `${counts.expression_of_concern} expressions of concern, ${counts.correction} corrected`
+  );
+
+  return counts;
+}
+
+function referenceDois(reference: DocumentReferenceWithFeedback): string[] {
+  const canonical = reference.canonical_reference;
+  const cited = reference.raw_citation_text.match(/10\.\d{4,9}\/[^\s,;]+/)?.[0];
+  const dois = [canonical?.doi, canonical?.published_doi, cited]
+    .filter((doi): doi is string => Boolean(doi))
+    .map(normalizeDoi);
+  return [...new Set(dois)];
+}
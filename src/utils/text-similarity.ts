@@ -0,0 +1,38 @@
+/**
+ * Title comparison shared by duplicate detection and metadata resolution
+ * Titles from different sources differ in case, accents, punctuation and the
+ * odd typo, so they are normalised before an edit-distance comparison.
+ */
+
+/** Lower-case, strip accents and punctuation: "Attention Is All You Need." → "attention is all you need" */
+export function normalizeTitle(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/** Edit distance between two strings (insertions, deletions, substitutions) */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 - edit distance / length of the longer string, on normalised strings; 0 to 1 */
+export function similarityRatio(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
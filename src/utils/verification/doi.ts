@@ -0,0 +1,79 @@
+/**
+ * DOI syntax checks
+ * A DOI has no check digit of its own, so a mistyped or invented one can only
+ * be caught by its shape and, where the publisher built the suffix from an
+ * ISSN (Elsevier PIIs, Wiley "j.1365-2648...", SICIs) or an ISBN (book
+ * chapters), by that identifier's check digit.
+ */
+
+import { normalizeDoi } from '@/utils/resolver/sources';
+
+export interface DoiCheck {
+  doi: string; // normalised
+  valid: boolean; // false when the DOI cannot exist as written
+  problems: string[];
+}
+
+// "10." + registrant code (sub-registrants like 10.1000.10 allowed) + "/" + suffix
+const DOI_SYNTAX = /^10\.\d{4,9}(?:\.\d+)*\/\S+$/;
+// Characters Crossref recommends for suffixes; nearly every registered DOI sticks to them
+const SUFFIX_CHARACTERS = /^[-._;()/:a-z0-9<>[\]]+$/;
+// ISSN at the places publishers embed it: "S0140-6736(20)...", "j.1365-2648.2006...", "(SICI)1097-4571(...)".
+// An Elsevier PII keeps the hyphen and is followed by the year in parentheses;
+// older Springer suffixes ("s004250050096") also start with "s" and digits but hold no ISSN
+const EMBEDDED_ISSN = /(?:^s(?=\d{4}-\d{3}[\dx]\()|^j\.|\(sici\))(\d{4})-?(\d{3}[\dx])/;
+// ISBN-13 at the start of a chapter suffix: "978-3-030-58452-8_13"
+const EMBEDDED_ISBN = /^(97[89][\d-]{10,16})/;
+
+/**
+ * Check that a cited DOI is well formed and that any ISSN or ISBN inside it carries a valid check digit
+ */
+export function checkDoi(doi: string): DoiCheck {
+  const normalized = normalizeDoi(doi);
+  const problems: string[] = [];
+
+  if (!DOI_SYNTAX.test(normalized)) {
+    return {
+      doi: normalized,
+      valid: false,
+      problems: ['not a DOI: it must start with "10.", a registrant code of at least four digits and "/"'],
+    };
+  }
+
+  const suffix = normalized.slice(normalized.indexOf('/') + 1);
+  // Unusual characters are legal but more often a copying error than a real DOI
+  if (!SUFFIX_CHARACTERS.test(suffix)) {
+    problems.push('suffix contains characters registered DOIs rarely use');
+  }
+
+  // A failed check digit means the suffix was altered; no registered DOI carries one
+  let checkDigitsValid = true;
+
+  const issn = suffix.match(EMBEDDED_ISSN);
+  if (issn && !validIssn(issn[1] + issn[2])) {
+    problems.push(`embedded ISSN ${issn[1]}-${issn[2].toUpperCase()} has an invalid check digit`);
+    checkDigitsValid = false;
+  }
+
+  const isbn = suffix.match(EMBEDDED_ISBN)?.[1].replace(/-/g, '');
+  if (isbn && isbn.length === 13 && !validIsbn13(isbn)) {
+    problems.push(`embedded ISBN ${isbn} has an invalid check digit`);
+    checkDigitsValid = false;
+  }
+
+  return { doi: normalized, valid: checkDigitsValid, problems };
+}
+
+// ISO 3297: weights 8 down to 2, mod 11, "X" for 10
+function validIssn(issn: string): boolean {
+  const digits = issn.toLowerCase();
+  const sum = [...digits.slice(0, 7)].reduce((total, digit, i) => total + Number(digit) * (8 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return digits[7] === (check === 10 ? 'x' : String(check));
+}
+
+// ISBN-13: alternating weights 1 and 3, mod 10
+function validIsbn13(isbn: string): boolean {
+  const sum = [...isbn.slice(0, 12)].reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return Number(isbn[12]) === (10 - (sum % 10)) % 10;
+}
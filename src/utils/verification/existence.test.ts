@@ -0,0 +1,8 @@
+/**
+ * Test suite for the DOI and existence checks
+ */
+
+import { runAcceptanceTests } from './existence';
+
+console.log('\n🔬 Running Acceptance Tests...\n');
+runAcceptanceTests();
@@ -0,0 +1,105 @@
+/**
+ * Passage retrieval
+ * Splits a cited paper's full text into overlapping passages and ranks them
+ * against the citing sentence with BM25, so the model judges a claim against
+ * the parts of the paper that discuss it rather than against the abstract.
+ */
+
+import { normalizeTitle } from '@/utils/text-similarity';
+
+export interface Passage {
+  index: number; // order in the paper
+  text: string;
+}
+
+export interface RankedPassage extends Passage {
+  score: number; // BM25; only comparable within one ranking
+}
+
+// Words per passage and words shared with the next one, so a finding that
+// straddles a boundary is whole in at least one passage
+const PASSAGE_WORDS = 150;
+const PASSAGE_OVERLAP = 40;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// A heading that starts the bibliography; everything after it cites other work
+const REFERENCES_HEADING = /\n\s*(?:\d+\.?\s*)?(?:references|bibliography|literature cited|works cited)\s*\n/i;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'for', 'from', 'had', 'has',
+  'have', 'in', 'into', 'is', 'it', 'its', 'may', 'of', 'on', 'or', 'our', 'such', 'than', 'that',
+  'the', 'their', 'these', 'this', 'those', 'to', 'was', 'we', 'were', 'which', 'while', 'with',
+  'et', 'al', 'fig', 'figure', 'table',
+]);
+
+/**
+ * Split full text into overlapping passages of about PASSAGE_WORDS words, leaving out the bibliography
+ */
+export function splitPassages(fullText: string): Passage[] {
+  const referencesAt = fullText.search(REFERENCES_HEADING);
+  // A "References" heading in the first half is more likely a table of contents entry
+  const body = referencesAt > fullText.length / 2 ? fullText.slice(0, referencesAt) : fullText;
+
+  // Rejoin words hyphenated across line breaks: "signifi-\ncant" → "significant"
+  const words = body.replace(/(\p{L})-\s*\n\s*(\p{Ll})/gu, '$1$2').split(/\s+/).filter(Boolean);
+  const passages: Passage[] = [];
+
+  for (let start = 0; start < words.length; start += PASSAGE_WORDS - PASSAGE_OVERLAP) {
+    passages.push({ index: passages.length, text: words.slice(start, start + PASSAGE_WORDS).join(' ') });
+    if (start + PASSAGE_WORDS >= words.length) break;
+  }
+  return passages;
+}
+
+/**
+ * Rank passages by BM25 relevance to the query, best first; passages sharing no term are dropped
+ */
+export function rankPassages(query: string, passages: Passage[], limit: number): RankedPassage[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || passages.length === 0) return [];
+
+  const documents = passages.map(passage => termCounts(tokenize(passage.text)));
+  const lengths = documents.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / passages.length || 1;
+
+  const idf = new Map(queryTerms.map(term => {
+    const containing = documents.filter(counts => counts.has(term)).length;
+    return [term, Math.log(1 + (passages.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return passages
+    .map((passage, i) => {
+      const score = queryTerms.reduce((sum, term) => {
+        const frequency = documents[i].get(term) ?? 0;
+        if (frequency === 0) return sum;
+        const norm = frequency + K1 * (1 - B + B * (lengths[i] / averageLength));
+        return sum + (idf.get(term) ?? 0) * (frequency * (K1 + 1)) / norm;
+      }, 0);
+      return { ...passage, score: Math.round(score * 1000) / 1000 };
+    })
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit);
+}
+
+function tokenize(text: string): string[] {
+  return normalizeTitle(text)
+    .split(' ')
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// Crude plural and tense folding so "models"/"model" and "reduced"/"reduces" meet
+function stem(token: string): string {
+  if (token.length <= 4 || /\d/.test(token)) return token;
+  return token.replace(/(?:ies|es|s|ed|ing|ly)$/, '');
+}
+
+function termCounts(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  return counts;
+}
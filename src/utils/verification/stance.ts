@@ -0,0 +1,181 @@
+/**
+ * Citation stance
+ * Classifies why each in-text citation cites its work (background, method
+ * use, supporting or contrasting evidence, comparison) from the citing
+ * sentence, then tallies the stances per reference and per document.
+ */
+
+import {
+  getDocumentCitationOccurrences,
+  getDocumentCitationReport,
+  getDocumentReferences,
+  updateCitationOccurrenceStance,
+  updateDocumentCitationReport,
+  updateDocumentReferenceStances,
+} from '@/utils/database/operations';
+import { completeStructured, type LlmProvider } from '@/utils/llm';
+import { CITATION_STANCE, renderPrompt } from '@/utils/prompts';
+import type { CitationOccurrence, CitationStance, StanceCounts, StanceSummary } from '@/types/database';
+
+export const STANCES: CitationStance[] = ['background', 'method', 'supporting', 'contrasting', 'comparison'];
+
+export const STANCE_LABELS: Record<CitationStance, string> = {
+  background: 'background',
+  method: 'method use',
+  supporting: 'supporting evidence',
+  contrasting: 'contrasting evidence',
+  comparison: 'comparison',
+};
+
+interface StanceAnswer {
+  stance: CitationStance;
+  rationale: string | null;
+}
+
+// Occurrences per model call and characters of context per occurrence; a
+// heavily cited work is classified over several calls
+const BATCH_SIZE = 15;
+const CONTEXT_CHARS = 600;
+
+export interface StanceOptions {
+  onProgress?: (done: number, total: number) => Promise<void>;
+  from?: number; // index of the first reference to classify; earlier ones are only tallied
+  deadline?: number; // epoch ms after which no further reference is started
+}
+
+export interface StanceRun {
+  summary: StanceSummary;
+  next: number | null; // reference to continue from when the deadline stopped the run
+}
+
+/**
+ * Classify the citation occurrences of a document that have no stance yet and
+ * store the per-reference and per-document tallies. At least one reference is
+ * classified per call; past the deadline the run stops and reports where to
+ * continue, and the tallies are only stored once every reference is done.
+ */
+export async function classifyDocumentStances(
+  documentId: string,
+  llm: LlmProvider,
+  options: StanceOptions = {}
+): Promise<StanceRun> {
+  const [occurrences, references] = await Promise.all([
+    getDocumentCitationOccurrences(documentId),
+    getDocumentReferences(documentId),
+  ]);
+  const summary: StanceSummary = { works: {}, occurrences: {}, unclassified: 0 };
+  const from = options.from ?? 0;
+  let classified = 0;
+
+  const byReference = new Map<string, CitationOccurrence[]>();
+  for (const occurrence of occurrences) {
+    byReference.set(occurrence.document_reference_id, [...(byReference.get(occurrence.document_reference_id) ?? []), occurrence]);
+  }
+
+  for (const [index, reference] of references.entries()) {
+    const cited = byReference.get(reference.id) ?? [];
+    // Occurrences classified by an earlier, interrupted run keep their stance
+    const pending = index < from
+      ? []
+      : cited.filter(occurrence => !occurrence.stance && occurrence.context_text?.trim());
+
+    if (pending.length > 0 && classified > 0 && options.deadline !== undefined && Date.now() >= options.deadline) {
+      return { summary, next: index };
+    }
+
+    const answers = new Map<string, StanceAnswer>();
+    for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+      const batch = pending.slice(start, start + BATCH_SIZE);
+      try {
+        const batchAnswers = await classifyOccurrences(reference.raw_citation_text, batch, llm);
+        batch.forEach((occurrence, i) => {
+          const answer = batchAnswers[i];
+          if (answer) answers.set(occurrence.id, answer);
+        });
+      } catch (err) {
+        console.error(`[stance] Classification failed for reference ${reference.id}:`, err);
+      }
+    }
+    if (pending.length > 0) classified++;
+
+    const counts: StanceCounts = {};
+    for (const occurrence of cited) {
+      const answer = answers.get(occurrence.id) ?? null;
+      if (answer) {
+        await updateCitationOccurrenceStance(occurrence.id, answer.stance, answer.rationale);
+      }
+      const stance = answer?.stance ?? occurrence.stance;
+      if (stance) {
+        counts[stance] = (counts[stance] ?? 0) + 1;
+      } else {
+        summary.unclassified++;
+      }
+    }
+
+    if (index >= from) {
+      await updateDocumentReferenceStances(reference.id, counts);
+    }
+    for (const [stance, count] of Object.entries(counts) as Array<[CitationStance, number]>) {
+      summary.works[stance] = (summary.works[stance] ?? 0) + 1;
+      summary.occurrences[stance] = (summary.occurrences[stance] ?? 0) + count;
+    }
+    await options.onProgress?.(index + 1, references.length);
+  }
+
+  // Documents parsed before citation reports existed have nothing to add to
+  const report = await getDocumentCitationReport(documentId);
+  if (report) {
+    await updateDocumentCitationReport(documentId, { ...report, stances: summary });
+  }
+
+  console.log(`[stance] Document ${documentId}: ${describeStanceSummary(summary) || 'no classified citations'}`);
+  return { summary, next: null };
+}
+
+/**
+ * "cites 12 works as background, 3 as contrasting evidence"
+ */
+export function describeStanceSummary(summary: StanceSummary): string {
+  const parts = STANCES
+    .filter(stance => summary.works[stance])
+    .map((stance, i) => {
+      const works = summary.works[stance] ?? 0;
+      const noun = i === 0 ? ` work${works === 1 ? '' : 's'}` : '';
+      return `${works}${noun} as ${STANCE_LABELS[stance]}`;
+    });
+  return parts.length > 0 ? `cites ${parts.join(', ')}` : '';
+}
+
+// One call per batch of occurrences of the same reference; answers come back in order
+async function classifyOccurrences(
+  reference: string,
+  occurrences: CitationOccurrence[],
+  llm: LlmProvider
+): Promise<Array<StanceAnswer | null>> {
+  const parsed = await completeStructured(llm, {
+    task: CITATION_STANCE.name,
+    schema: CITATION_STANCE.schema,
+    documentId: occurrences[0]?.document_id,
+    messages: renderPrompt(CITATION_STANCE, {
+      reference,
+      passages: occurrences.map(occurrence => ({
+        citation: occurrence.citation_text,
+        context: occurrence.context_text?.slice(0, CONTEXT_CHARS) ?? '',
+      })),
+    }),
+  });
+  const answers: Array<StanceAnswer | null> = occurrences.map(() => null);
+
+  for (const item of parsed.stances) {
+    const index = item.passage - 1;
+    const stance = item.stance.trim().toLowerCase();
+    // Ignore answers for passages that were not asked about and labels outside the scheme
+    if (index >= 0 && index < occurrences.length && STANCES.includes(stance as CitationStance)) {
+      answers[index] = {
+        stance: stance as CitationStance,
+        rationale: item.rationale.trim() || null,
+      };
+    }
+  }
+  return answers;
+}